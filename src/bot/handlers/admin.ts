@@ -0,0 +1,199 @@
+import { md } from '@mtcute/markdown-parser'
+import { BotKeyboard } from '@mtcute/node'
+import { CallbackDataBuilder, type CallbackQueryContext, type MessageContext } from '@mtcute/dispatcher'
+import { isAdmin, UNAUTHORIZED_MESSAGE } from '../middleware/auth.js'
+import {
+    getStats, getLimits, setLimit, listActiveStreams, killStream,
+    STREAM_LIMIT_NAMES, type StreamLimitName,
+} from '../../server/middleware/rate-limit.js'
+import { getStoreStats, listRecentFiles, lookupFileEntry } from '../../server/utils/file-store.js'
+import { getPartSchedulerStats } from '../../server/utils/part-scheduler.js'
+import { formatDuration } from '../../utils/duration.js'
+
+type CommandContext = MessageContext & { command: string[] }
+
+/**
+ * Callback data for the kill buttons under /streams
+ */
+export const KillStreamButton = new CallbackDataBuilder('kill', 'id')
+
+/**
+ * Most streams shown (and kill buttons attached) by /streams
+ */
+const MAX_LISTED_STREAMS = 20
+
+/**
+ * Short names accepted by /limits
+ */
+const LIMIT_ALIASES: Record<string, StreamLimitName> = {
+    per_token: 'MAX_CONCURRENT_STREAMS',
+    total: 'MAX_TOTAL_STREAMS',
+    users: 'MAX_USERS',
+}
+
+function formatMB(bytes: number): string {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function formatRate(bytesPerSecond: number): string {
+    return `${(bytesPerSecond / 1024 / 1024).toFixed(2)} MB/s`
+}
+
+function formatLimits(): string {
+    const limits = getLimits()
+    return STREAM_LIMIT_NAMES.map(name => `${name} = ${limits[name]}`).join('\n')
+}
+
+/**
+ * Handle /stats command
+ */
+export async function handleStats(msg: CommandContext): Promise<void> {
+    if (!isAdmin(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const stats = getStats()
+    const limits = getLimits()
+    const store = getStoreStats()
+    const parts = getPartSchedulerStats()
+    const mem = process.memoryUsage()
+    const { globalKBps } = stats.bandwidth.limits
+    const { admission } = stats
+    const bandwidthLimit = globalKBps > 0 ? ` (limit ${formatRate(globalKBps * 1024)})` : ''
+    const cache = stats.cache.enabled
+        ? `${stats.cache.parts} parts, ${stats.cache.sizeMB}/${stats.cache.maxSizeMB} MB, ${stats.cache.hits} hits / ${stats.cache.misses} misses`
+        : 'disabled'
+
+    await msg.answerText(
+        md`📊 **Stats**
+
+**Streams:** ${stats.totalActiveStreams}/${limits.MAX_TOTAL_STREAMS}
+**Users:** ${stats.activeUsers}/${limits.MAX_USERS}
+**Active links:** ${stats.activeTokens} (max ${limits.MAX_CONCURRENT_STREAMS} streams each)
+**Bandwidth:** ${formatRate(stats.bandwidth.globalBytesPerSecond)}${bandwidthLimit}
+**Queue:** ${admission.queued} waiting, ${admission.admittedAfterWait} admitted / ${admission.timeouts} timed out, avg wait ${formatDuration(admission.avgWaitMs)}
+
+**Store:** ${store.count}/${store.maxEntries} links (${store.backend})
+**Cache:** ${cache}
+**Parts:** ${parts.partsFetched} fetched, ${parts.partsShared} shared, ${parts.inFlightParts} in flight
+
+**Memory:** ${formatMB(mem.rss)} RSS, ${formatMB(mem.heapUsed)} heap
+**Uptime:** ${formatDuration(process.uptime() * 1000)}`
+    )
+}
+
+/**
+ * Handle /streams command
+ * Lists active streams with a kill button for each
+ */
+export async function handleStreams(msg: CommandContext): Promise<void> {
+    if (!isAdmin(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const streams = listActiveStreams()
+    if (streams.length === 0) {
+        await msg.answerText('💤 No active streams.')
+        return
+    }
+
+    const shown = streams.slice(0, MAX_LISTED_STREAMS)
+    const now = Date.now()
+    const lines = shown.map(stream =>
+        `#${stream.id} ${stream.fileName}\n` +
+        `    ${stream.token.slice(0, 8)} · ${stream.clientIP} · ${formatMB(stream.bytesStreamed)} · ` +
+        `${formatRate(stream.bytesPerSecond)} · ${formatDuration(now - stream.startedAt)}`
+    )
+    if (streams.length > shown.length) {
+        lines.push(`… and ${streams.length - shown.length} more`)
+    }
+
+    await msg.answerText(`📡 Active streams (${streams.length})\n\n${lines.join('\n')}`, {
+        replyMarkup: BotKeyboard.inline(shown.map(stream => [
+            BotKeyboard.callback(`❌ Kill #${stream.id}`, KillStreamButton.build({ id: stream.id })),
+        ])),
+    })
+}
+
+/**
+ * Handle a kill button press from /streams
+ */
+export async function handleKillStream(
+    query: CallbackQueryContext & { match: { id: string } }
+): Promise<void> {
+    if (!isAdmin(query.user.id)) {
+        await query.answer({ text: UNAUTHORIZED_MESSAGE, alert: true })
+        return
+    }
+
+    const killed = killStream(query.match.id)
+    await query.answer({ text: killed ? `Killed stream #${query.match.id}` : 'Stream already ended' })
+}
+
+/**
+ * Handle /links [count] command
+ * Lists the most recently registered links across all users
+ */
+export async function handleLinks(msg: CommandContext): Promise<void> {
+    if (!isAdmin(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const count = Math.min(Math.max(parseInt(msg.command[1], 10) || 10, 1), 50)
+    const files = listRecentFiles(count)
+    if (files.length === 0) {
+        await msg.answerText('📭 No links registered.')
+        return
+    }
+
+    const now = Date.now()
+    const lines = files.map(({ token, entry }) => {
+        const status = lookupFileEntry(token).status
+        const flags = [
+            status !== 'active' ? status : null,
+            entry.pinned ? 'pinned' : null,
+        ].filter(Boolean).join(', ')
+        return `${entry.fileName}\n` +
+            `    ${token} · user ${entry.ownerId ?? '?'} · ${formatDuration(now - entry.createdAt)} ago` +
+            (flags ? ` · ${flags}` : '')
+    })
+
+    await msg.answerText(`🔗 Recent links (${files.length})\n\n${lines.join('\n')}`)
+}
+
+/**
+ * Handle /limits [name value] command
+ * Without arguments shows the current limits; changes apply to new connections only
+ */
+export async function handleLimits(msg: CommandContext): Promise<void> {
+    if (!isAdmin(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const [, nameArg, valueArg] = msg.command
+    if (!nameArg) {
+        await msg.answerText(md`⚙️ **Stream limits**
+
+${formatLimits()}
+
+Change with \`/limits <name> <value>\``)
+        return
+    }
+
+    const name = LIMIT_ALIASES[nameArg.toLowerCase()]
+        ?? STREAM_LIMIT_NAMES.find(n => n === nameArg.toUpperCase())
+    const value = Number(valueArg)
+    if (!name || !Number.isInteger(value) || value < 1) {
+        await msg.answerText(
+            md`Usage: \`/limits <name> <value>\` where name is one of ${STREAM_LIMIT_NAMES.join(', ')} (or per_token, total, users)`
+        )
+        return
+    }
+
+    setLimit(name, value)
+    await msg.answerText(md`✅ \`${name}\` set to ${value}`)
+}
@@ -0,0 +1,67 @@
+import { md } from '@mtcute/markdown-parser'
+import type { MessageContext } from '@mtcute/dispatcher'
+import { env } from '../../config/env.js'
+import { isAllowed, UNAUTHORIZED_MESSAGE } from '../middleware/auth.js'
+import { issueApiKey, revokeApiKey } from '../../server/utils/api-keys.js'
+import { issueWebDavPassword, revokeWebDavPassword } from '../../server/utils/webdav-auth.js'
+
+type CommandContext = MessageContext & { command: string[] }
+
+/**
+ * Handle /apikey [revoke] command
+ * Issues a new HTTP API key (replacing the previous one) or revokes it
+ */
+export async function handleApiKey(msg: CommandContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    if (msg.command[1]?.toLowerCase() === 'revoke') {
+        const revoked = revokeApiKey(msg.sender.id)
+        await msg.answerText(revoked ? '🗑 Your API key was revoked.' : 'ℹ️ You have no API key.')
+        return
+    }
+
+    const key = issueApiKey(msg.sender.id)
+    await msg.answerText(
+        md`🔑 **Your API key**
+
+\`${key}\`
+
+Send it as \`Authorization: Bearer <key>\` to the API described at
+\`${env.HOST}/api/v1/openapi.json\`
+
+It is only shown this once; any previous key stopped working. Revoke it with \`/apikey revoke\`.`
+    )
+}
+
+/**
+ * Handle /webdav [revoke] command
+ * Issues new WebDAV credentials (replacing the previous password) or revokes them
+ */
+export async function handleWebDav(msg: CommandContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    if (msg.command[1]?.toLowerCase() === 'revoke') {
+        const revoked = revokeWebDavPassword(msg.sender.id)
+        await msg.answerText(revoked ? '🗑 Your WebDAV password was revoked.' : 'ℹ️ You have no WebDAV password.')
+        return
+    }
+
+    const password = issueWebDavPassword(msg.sender.id)
+    await msg.answerText(
+        md`📂 **WebDAV access**
+
+Address: \`${env.HOST}/dav/\`
+Username: \`${String(msg.sender.id)}\`
+Password: \`${password}\`
+
+Add it as a WebDAV source in Kodi, Infuse or rclone. It is read-only and shows your links, collections and indexed channels as folders.
+
+The password is only shown this once; any previous one stopped working. Revoke it with \`/webdav revoke\`.`
+    )
+}
@@ -0,0 +1,195 @@
+import { md } from '@mtcute/markdown-parser'
+import type { DeleteMessageUpdate, Message } from '@mtcute/node'
+import type { MessageContext } from '@mtcute/dispatcher'
+import { env } from '../../config/env.js'
+import { REINDEX_BATCH_SIZE, REINDEX_MAX_GAP } from '../../config/constants.js'
+import { isAdmin, UNAUTHORIZED_MESSAGE } from '../middleware/auth.js'
+import {
+    registerFile, findTokenByMessage, lookupFileEntry, updateFileMedia, revokeFile,
+} from '../../server/utils/file-store.js'
+import { createCollection } from '../../server/utils/collections.js'
+import { botLogger } from '../../utils/logger.js'
+import { extractMediaInfo } from './media.js'
+import type { MediaInfo } from '../../types/index.js'
+
+/**
+ * Channel indexing
+ * Video, audio and document posts in INDEX_CHANNELS are registered as they are posted,
+ * owned by the channel itself, and kept in sync as posts are edited or deleted.
+ * Albums also become one collection each.
+ */
+
+type CommandContext = MessageContext & { command: string[] }
+
+let reindexing = false
+
+/**
+ * Media info for a post that should be indexed, or null for anything else
+ * Voice messages and round videos are left out, they aren't catalog material
+ */
+function extractPostMedia(msg: Message): MediaInfo | null {
+    const media = msg.media
+    if (media?.type !== 'video' && media?.type !== 'audio' && media?.type !== 'document') return null
+    if (media.type === 'video' && media.isRound) return null
+    return extractMediaInfo(msg)
+}
+
+/**
+ * Bring the entry for a channel post in line with the post
+ * Returns what changed, for /reindex
+ */
+function syncPost(chatId: number, messageId: number, msg: Message | null): 'added' | 'updated' | 'revoked' | 'unchanged' {
+    const info = msg ? extractPostMedia(msg) : null
+    const token = findTokenByMessage(chatId, messageId)
+
+    if (!info?.fileId) {
+        // The post is gone or no longer has media
+        if (!token || lookupFileEntry(token).status === 'revoked') return 'unchanged'
+        revokeFile(token)
+        botLogger.info('Channel post removed, link revoked', { chatId, messageId, token: token.slice(0, 8) })
+        return 'revoked'
+    }
+
+    if (token && lookupFileEntry(token).status !== 'revoked') {
+        updateFileMedia(token, info)
+        return 'updated'
+    }
+
+    // Channel links are a catalog, so they don't expire
+    registerFile(info, chatId, { chatId, messageId }, 0)
+    return 'added'
+}
+
+/**
+ * Gather a channel album's indexed posts into the channel's collection for that album
+ */
+function collectAlbum(chatId: number, groupId: string, posts: Message[]): void {
+    const tokens = posts.flatMap(post => findTokenByMessage(chatId, post.id) ?? [])
+    if (tokens.length === 0) return
+    const caption = posts.map(post => post.text).find(Boolean)?.split('\n')[0]
+    createCollection(chatId, caption || `Album of ${tokens.length} files`, tokens, groupId)
+}
+
+/**
+ * Handle a new post in an indexed channel
+ */
+export async function handleChannelPost(msg: MessageContext): Promise<void> {
+    const result = syncPost(msg.chat.id, msg.id, msg)
+    if (result === 'added') {
+        botLogger.info('Indexed channel post', { chatId: msg.chat.id, messageId: msg.id })
+    }
+}
+
+/**
+ * Handle a new album in an indexed channel
+ */
+export async function handleChannelGroup(msg: MessageContext): Promise<void> {
+    for (const post of msg.messages) {
+        syncPost(post.chat.id, post.id, post)
+    }
+    if (msg.groupedIdUnique) collectAlbum(msg.chat.id, msg.groupedIdUnique, msg.messages)
+    botLogger.info('Indexed channel album', { chatId: msg.chat.id, posts: msg.messages.length })
+}
+
+/**
+ * Handle an edited post in an indexed channel
+ * The media or caption may have changed, or the media may have been removed
+ */
+export async function handleChannelEdit(msg: MessageContext): Promise<void> {
+    syncPost(msg.chat.id, msg.id, msg)
+}
+
+/**
+ * Handle deleted posts; links to posts from indexed channels are revoked
+ */
+export async function handleChannelDelete(update: DeleteMessageUpdate): Promise<void> {
+    const { channelId } = update
+    if (channelId === null || !env.INDEX_CHANNELS.includes(channelId)) return
+
+    for (const messageId of update.messageIds) {
+        syncPost(channelId, messageId, null)
+    }
+}
+
+/**
+ * Walk a channel's posts from the first message ID up, regrouping albums
+ * Bots can't read chat history, only fetch messages by ID, so this stops at upTo
+ * if given, otherwise REINDEX_MAX_GAP IDs after the last post found.
+ */
+async function reindexChannel(msg: MessageContext, chatId: number, upTo?: number) {
+    const counts = { added: 0, updated: 0, revoked: 0, unchanged: 0 }
+    let lastFound = 0
+
+    for (let start = 1; upTo ? start <= upTo : start <= lastFound + REINDEX_MAX_GAP; start += REINDEX_BATCH_SIZE) {
+        const ids = Array.from({ length: REINDEX_BATCH_SIZE }, (_, i) => start + i)
+            .filter(id => !upTo || id <= upTo)
+        const messages = await msg.client.getMessages(chatId, ids)
+
+        const albums = new Map<string, Message[]>()
+        messages.forEach((message, i) => {
+            if (message) lastFound = ids[i]
+            counts[syncPost(chatId, ids[i], message)]++
+            if (message?.groupedIdUnique) {
+                albums.set(message.groupedIdUnique, [...albums.get(message.groupedIdUnique) ?? [], message])
+            }
+        })
+        // Albums split across batches are joined up by their group ID
+        for (const [groupId, posts] of albums) collectAlbum(chatId, groupId, posts)
+    }
+
+    return { ...counts, lastMessageId: lastFound }
+}
+
+/**
+ * Handle /reindex [channel_id] [last_message_id] command
+ * Backfills the index from existing posts and revokes links to posts deleted meanwhile
+ */
+export async function handleReindex(msg: CommandContext): Promise<void> {
+    if (!isAdmin(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    if (env.INDEX_CHANNELS.length === 0) {
+        await msg.answerText('ℹ️ No channels are configured for indexing (INDEX_CHANNELS).')
+        return
+    }
+
+    const [, channelArg, upToArg] = msg.command
+    const channels = channelArg ? [parseInt(channelArg, 10)] : env.INDEX_CHANNELS
+    const upTo = upToArg ? parseInt(upToArg, 10) : undefined
+    if (channels.some(id => !env.INDEX_CHANNELS.includes(id)) || (upTo !== undefined && !(upTo > 0))) {
+        await msg.answerText(
+            md`Usage: \`/reindex [channel_id] [last_message_id]\` where channel_id is one of ${env.INDEX_CHANNELS.join(', ')}`
+        )
+        return
+    }
+
+    if (reindexing) {
+        await msg.answerText('⏳ A reindex is already running.')
+        return
+    }
+    reindexing = true
+
+    try {
+        await msg.answerText(`⏳ Reindexing ${channels.length} channel(s)…`)
+
+        const lines: string[] = []
+        for (const chatId of channels) {
+            try {
+                const result = await reindexChannel(msg, chatId, upTo)
+                lines.push(
+                    `${chatId}: ${result.added} added, ${result.updated} updated, ${result.revoked} revoked ` +
+                    `(up to message ${result.lastMessageId})`
+                )
+            } catch (error) {
+                botLogger.error('Channel reindex failed', { chatId, error })
+                lines.push(`${chatId}: failed (${error instanceof Error ? error.message : String(error)})`)
+            }
+        }
+
+        await msg.answerText(`✅ Reindex finished\n\n${lines.join('\n')}`)
+    } finally {
+        reindexing = false
+    }
+}
@@ -0,0 +1,149 @@
+import { md } from '@mtcute/markdown-parser'
+import type { InputText } from '@mtcute/node'
+import type { MessageContext } from '@mtcute/dispatcher'
+import { BATCH_TIMEOUT, MAX_BATCH_ITEMS } from '../../config/constants.js'
+import { isAllowed, UNAUTHORIZED_MESSAGE } from '../middleware/auth.js'
+import {
+    createCollection, getCollection, getCollectionItems, getPlaylistUrl,
+} from '../../server/utils/collections.js'
+import type { Collection } from '../../types/index.js'
+
+type CommandContext = MessageContext & { command: string[] }
+
+/**
+ * Most items listed by name in a collection's message
+ */
+const MAX_LISTED_ITEMS = 20
+
+/**
+ * A /batch in progress: files sent until /done are gathered into one collection
+ */
+interface Batch {
+    name?: string
+    tokens: string[]
+    updatedAt: number
+}
+
+const batches = new Map<number, Batch>()
+
+/**
+ * Get a user's open batch, dropping it if it was abandoned
+ */
+function getBatch(userId: number): Batch | undefined {
+    const batch = batches.get(userId)
+    if (batch && Date.now() - batch.updatedAt > BATCH_TIMEOUT) {
+        batches.delete(userId)
+        return undefined
+    }
+    return batch
+}
+
+/**
+ * Add a registered file to the user's open batch
+ * Returns the number of files in the batch and whether this one is in it (false once the
+ * batch is full), or null if the user has no batch open
+ */
+export function addToBatch(userId: number, token: string): { size: number; added: boolean } | null {
+    const batch = getBatch(userId)
+    if (!batch) return null
+    if (!batch.tokens.includes(token) && batch.tokens.length < MAX_BATCH_ITEMS) {
+        batch.tokens.push(token)
+    }
+    batch.updatedAt = Date.now()
+    return { size: batch.tokens.length, added: batch.tokens.includes(token) }
+}
+
+/**
+ * Build the message for a collection: its items and playlist links
+ */
+export function renderCollectionLinks(token: string, collection: Collection): InputText {
+    const items = getCollectionItems(collection)
+    const shown = items.slice(0, MAX_LISTED_ITEMS)
+    const list = shown.map(({ entry }, i) => `${i + 1}. ${entry.fileName}`)
+    if (items.length > shown.length) {
+        list.push(`… and ${items.length - shown.length} more`)
+    }
+
+    return md`🎞 **${collection.name}**
+${items.length} file(s)
+
+${list.join('\n')}
+
+📃 **M3U playlist (VLC, mpv):**
+\`${getPlaylistUrl(token, 'm3u8')}\`
+
+📃 **XSPF playlist:**
+\`${getPlaylistUrl(token, 'xspf')}\`
+
+📺 For VLC: Media → Open Network Stream, then paste a playlist URL`
+}
+
+/**
+ * Reply with the links for a collection
+ */
+export async function sendCollectionLinks(msg: MessageContext, token: string): Promise<void> {
+    const collection = getCollection(token)
+    if (!collection) return
+    await msg.answerText(renderCollectionLinks(token, collection))
+}
+
+/**
+ * Handle /batch [name] command
+ * Starts gathering files into a collection; /batch cancel discards the open batch
+ */
+export async function handleBatch(msg: CommandContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const name = msg.text.replace(/^\/\S+\s*/, '').trim()
+    const batch = getBatch(msg.sender.id)
+
+    if (name.toLowerCase() === 'cancel') {
+        batches.delete(msg.sender.id)
+        await msg.answerText(batch ? '🗑 Batch discarded.' : 'ℹ️ No batch is open.')
+        return
+    }
+
+    if (batch) {
+        await msg.answerText(`ℹ️ A batch is already open with ${batch.tokens.length} file(s). Send /done to finish it.`)
+        return
+    }
+
+    batches.set(msg.sender.id, { name: name || undefined, tokens: [], updatedAt: Date.now() })
+    await msg.answerText(
+        md`📥 **Batch started** ${name ? md`\`${name}\`` : ''}
+
+Send or forward the files in playlist order, then /done to get one playlist for all of them. /batch cancel discards it.`
+    )
+}
+
+/**
+ * Handle /done command - turn the open batch into a collection
+ */
+export async function handleDone(msg: MessageContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const batch = getBatch(msg.sender.id)
+    if (!batch) {
+        await msg.answerText(md`ℹ️ No batch is open. Start one with \`/batch [name]\`.`)
+        return
+    }
+    batches.delete(msg.sender.id)
+
+    if (batch.tokens.length === 0) {
+        await msg.answerText('ℹ️ The batch was empty, nothing to do.')
+        return
+    }
+
+    const token = createCollection(
+        msg.sender.id,
+        batch.name ?? `Batch of ${batch.tokens.length} files`,
+        batch.tokens
+    )
+    await sendCollectionLinks(msg, token)
+}
@@ -0,0 +1,270 @@
+import { tl } from '@mtcute/node'
+import { md } from '@mtcute/markdown-parser'
+import type { CallbackQueryContext, MessageContext } from '@mtcute/dispatcher'
+import { isAllowed, UNAUTHORIZED_MESSAGE } from '../middleware/auth.js'
+import {
+    lookupFileEntry, revokeFile, extendFile, pinFile, rotateToken, getStreamUrl, getDownloadUrl,
+} from '../../server/utils/file-store.js'
+import { getCollection, deleteCollection, replaceCollectionToken } from '../../server/utils/collections.js'
+import { renderFileLinks } from './media.js'
+import { isValidCidr } from '../../server/utils/ip.js'
+import { parseDuration, formatDuration } from '../../utils/duration.js'
+import { botLogger } from '../../utils/logger.js'
+import type { FileEntry } from '../../types/index.js'
+
+type CommandContext = MessageContext & { command: string[] }
+
+/**
+ * Accept either a bare token or a full /stream, /download or /playlist URL
+ */
+function parseTokenArg(arg: string | undefined): string | null {
+    if (!arg) return null
+    const token = arg.trim().replace(/[?#].*$/, '').replace(/\/+$/, '').split('/').pop()
+    return token?.replace(/\.(m3u8|xspf)$/, '') || null
+}
+
+/**
+ * Find an entry owned by the sender
+ * Entries owned by someone else are reported as missing to avoid leaking their existence
+ */
+async function findOwnedEntry(msg: CommandContext, token: string): Promise<FileEntry | null> {
+    const lookup = lookupFileEntry(token)
+    if (lookup.status === 'not_found' || lookup.entry.ownerId !== msg.sender.id) {
+        await msg.answerText('❌ Link not found.')
+        return null
+    }
+    return lookup.entry
+}
+
+/**
+ * Handle /revoke <token> command
+ */
+export async function handleRevoke(msg: CommandContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const token = parseTokenArg(msg.command[1])
+    if (!token) {
+        await msg.answerText(md`Usage: \`/revoke <token or link>\``)
+        return
+    }
+
+    // Playlist links are removed outright; their files keep their own links
+    const collection = getCollection(token)
+    if (collection && collection.ownerId === msg.sender.id) {
+        deleteCollection(token)
+        await msg.answerText(md`🗑 Removed playlist \`${collection.name}\``)
+        return
+    }
+
+    const entry = await findOwnedEntry(msg, token)
+    if (!entry) return
+
+    if (entry.revoked) {
+        await msg.answerText('ℹ️ This link is already revoked.')
+        return
+    }
+
+    revokeFile(token)
+    await msg.answerText(md`🗑 Revoked link for \`${entry.fileName}\``)
+}
+
+/**
+ * Handle /pin and /unpin <token> commands
+ * Pinned links are never evicted when the store is full
+ */
+export async function handlePin(msg: CommandContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const pinned = msg.command[0].toLowerCase() === 'pin'
+    const token = parseTokenArg(msg.command[1])
+    if (!token) {
+        await msg.answerText(md`Usage: \`/${msg.command[0]} <token or link>\``)
+        return
+    }
+
+    const entry = await findOwnedEntry(msg, token)
+    if (!entry) return
+
+    pinFile(token, pinned)
+    await msg.answerText(pinned
+        ? md`📌 Pinned \`${entry.fileName}\`, it will not be evicted`
+        : md`📍 Unpinned \`${entry.fileName}\``
+    )
+}
+
+/**
+ * Handle /extend <token> <duration> command
+ */
+export async function handleExtend(msg: CommandContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const token = parseTokenArg(msg.command[1])
+    const duration = msg.command[2] ? parseDuration(msg.command[2]) : null
+    if (!token || !duration) {
+        await msg.answerText(md`Usage: \`/extend <token or link> <duration>\` (e.g. \`12h\`, \`7d\`)`)
+        return
+    }
+
+    const entry = await findOwnedEntry(msg, token)
+    if (!entry) return
+
+    if (entry.revoked) {
+        await msg.answerText('❌ This link has been revoked and cannot be extended.')
+        return
+    }
+
+    const expiresAt = extendFile(token, duration)
+    if (expiresAt === undefined) {
+        await msg.answerText('ℹ️ This link never expires.')
+        return
+    }
+
+    await msg.answerText(
+        md`⏳ Extended \`${entry.fileName}\`, now expires in ${formatDuration(expiresAt - Date.now())}`
+    )
+}
+
+/**
+ * Handle /share <token> <duration> [ip or cidr] command
+ * Mints a short-lived signed link, optionally bound to a viewer's IP or subnet
+ */
+export async function handleShare(msg: CommandContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const token = parseTokenArg(msg.command[1])
+    const duration = msg.command[2] ? parseDuration(msg.command[2]) : null
+    const ip = msg.command[3]
+    if (!token || !duration) {
+        await msg.answerText(md`Usage: \`/share <token or link> <duration> [ip or cidr]\``)
+        return
+    }
+
+    if (ip && !isValidCidr(ip)) {
+        await msg.answerText(md`❌ \`${ip}\` is not a valid IP address or CIDR range.`)
+        return
+    }
+
+    const entry = await findOwnedEntry(msg, token)
+    if (!entry) return
+
+    if (lookupFileEntry(token).status !== 'active') {
+        await msg.answerText('❌ This link is no longer active.')
+        return
+    }
+
+    const options = { expiresAt: Date.now() + duration, ip }
+    const ipStr = ip ? `🔒 Bound to: ${ip}\n` : ''
+
+    await msg.answerText(
+        md`🔗 **Shared link for** \`${entry.fileName}\`
+
+⏳ Valid for ${formatDuration(duration)}
+${ipStr}
+**Stream:**
+\`${getStreamUrl(token, options)}\`
+
+**Download:**
+\`${getDownloadUrl(token, options)}\``
+    )
+}
+
+/**
+ * Format a link's usage and lifetime for the Info button
+ */
+function formatLinkInfo(status: string, entry: FileEntry): string {
+    const now = Date.now()
+    const served = `${((entry.bytesServed ?? 0) / 1024 / 1024).toFixed(1)} MB`
+    const expiry = entry.expiresAt === undefined
+        ? 'never expires'
+        : entry.expiresAt > now ? `expires in ${formatDuration(entry.expiresAt - now)}` : 'expired'
+    return [
+        entry.fileName.length > 60 ? `${entry.fileName.slice(0, 57)}...` : entry.fileName,
+        `Status: ${status}${entry.pinned ? ', pinned' : ''}`,
+        `Views: ${entry.views ?? 0} · Served: ${served}`,
+        `Created ${formatDuration(now - entry.createdAt)} ago, ${expiry}`,
+    ].join('\n')
+}
+
+/**
+ * Update the links message after a button press and confirm with a toast
+ * An unchanged message (a double tap) still counts as success; any other failure is
+ * reported to the user instead of leaving the button spinning.
+ */
+async function updateLinkMessage(
+    query: CallbackQueryContext,
+    params: Parameters<CallbackQueryContext['editMessage']>[0],
+    toast: string
+): Promise<void> {
+    try {
+        await query.editMessage(params)
+    } catch (error) {
+        if (!tl.RpcError.is(error, 'MESSAGE_NOT_MODIFIED')) {
+            botLogger.warn('Failed to update link message', { error })
+            toast = '❌ Could not update the message, try again.'
+        }
+    }
+
+    try {
+        await query.answer({ text: toast })
+    } catch (error) {
+        botLogger.warn('Failed to answer callback query', { error })
+    }
+}
+
+/**
+ * Handle the New link, Revoke and Info buttons under a file's links
+ */
+export async function handleLinkButton(
+    query: CallbackQueryContext & { match: { action: string; token: string } }
+): Promise<void> {
+    if (!isAllowed(query.user.id)) {
+        await query.answer({ text: UNAUTHORIZED_MESSAGE, alert: true })
+        return
+    }
+
+    const { action, token } = query.match
+
+    // Same rule as the commands: someone else's link is reported as missing
+    const lookup = lookupFileEntry(token)
+    if (lookup.status === 'not_found' || lookup.entry.ownerId !== query.user.id) {
+        await query.answer({ text: '❌ Link not found.', alert: true })
+        return
+    }
+    const { entry } = lookup
+
+    if (action === 'info') {
+        await query.answer({ text: formatLinkInfo(lookup.status, entry), alert: true })
+        return
+    }
+
+    if (action === 'revoke') {
+        if (!entry.revoked) revokeFile(token)
+        await updateLinkMessage(query, { text: md`🗑 Revoked link for \`${entry.fileName}\`` }, 'Link revoked')
+        return
+    }
+
+    if (action === 'rotate') {
+        if (lookup.status !== 'active') {
+            await query.answer({ text: '❌ This link is no longer active.', alert: true })
+            return
+        }
+        const newToken = rotateToken(token)!
+        replaceCollectionToken(token, newToken)
+        await updateLinkMessage(query, renderFileLinks(newToken, entry), 'New link created, the old one no longer works')
+        return
+    }
+
+    await query.answer({})
+}
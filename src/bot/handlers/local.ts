@@ -0,0 +1,55 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { md } from '@mtcute/markdown-parser'
+import type { MessageContext } from '@mtcute/dispatcher'
+import { env } from '../../config/env.js'
+import { isAllowed, UNAUTHORIZED_MESSAGE } from '../middleware/auth.js'
+import { registerFile } from '../../server/utils/file-store.js'
+import { getMimeType } from '../../server/utils/mime.js'
+import { resolveLocalPath } from '../../server/sources/local.js'
+import { sendFileLinks } from './media.js'
+import type { MediaInfo } from '../../types/index.js'
+
+/**
+ * Handle /local <path> command - register a file from LOCAL_MEDIA_DIR
+ */
+export async function handleLocal(msg: MessageContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const root = env.LOCAL_MEDIA_DIR
+    if (!root) {
+        await msg.answerText('ℹ️ Local media is not configured on this server.')
+        return
+    }
+
+    // Everything after the command, so paths may contain spaces
+    const relativePath = msg.text.replace(/^\/\S+\s*/, '').trim()
+    if (!relativePath) {
+        await msg.answerText(md`Usage: \`/local <path inside the media directory>\``)
+        return
+    }
+
+    const filePath = await resolveLocalPath(relativePath)
+    const stat = filePath ? await fs.promises.stat(filePath).catch(() => null) : null
+    if (!filePath || !stat?.isFile()) {
+        await msg.answerText(md`❌ File not found: \`${relativePath}\``)
+        return
+    }
+
+    const normalized = path.relative(await fs.promises.realpath(root), filePath)
+    const fileName = path.basename(filePath)
+    const mediaInfo: MediaInfo = {
+        fileId: `local:${normalized}`,
+        fileUniqueId: `local:${normalized}`,
+        fileName,
+        fileSize: stat.size,
+        mimeType: getMimeType(fileName),
+        localPath: normalized,
+    }
+
+    const token = registerFile(mediaInfo, msg.sender.id)
+    await sendFileLinks(msg, token)
+}
@@ -1,16 +1,31 @@
 import { md } from '@mtcute/markdown-parser'
-import type { MessageContext } from '@mtcute/dispatcher'
+import { BotKeyboard, type InputText, type ReplyMarkup } from '@mtcute/node'
+import { CallbackDataBuilder, type MessageContext } from '@mtcute/dispatcher'
+import { env } from '../../config/env.js'
+import { MAX_SUBTITLE_SIZE } from '../../config/constants.js'
 import { isAllowed, UNAUTHORIZED_MESSAGE } from '../middleware/auth.js'
-import { registerFile, getStreamUrl, getDownloadUrl } from '../../server/utils/file-store.js'
-import type { MediaInfo } from '../../types/index.js'
+import {
+    registerFile, getStreamUrl, getDownloadUrl, getWatchUrl,
+    findTokenByMessage, lookupFileEntry, addSubtitle,
+} from '../../server/utils/file-store.js'
+import { isSubtitleFile, guessSubtitleLang } from '../../server/utils/subtitles.js'
+import { createCollection } from '../../server/utils/collections.js'
+import { addToBatch, sendCollectionLinks } from './collections.js'
+import { formatDuration } from '../../utils/duration.js'
+import type { FileEntry, MediaInfo } from '../../types/index.js'
 
 /**
  * Extract media info from a message
  * Returns null if media type is not supported
  */
-function extractMediaInfo(msg: any): MediaInfo | null {
-    const media = msg.media
+export function extractMediaInfo(msg: any): MediaInfo | null {
+    const info = extractMedia(msg.media)
+    if (!info) return null
+    // Captions come through as the message text
+    return msg.text ? { ...info, caption: msg.text } : info
+}
 
+function extractMedia(media: any): MediaInfo | null {
     if (!media) return null
 
     if (media.type === 'video') {
@@ -22,15 +37,18 @@ function extractMediaInfo(msg: any): MediaInfo | null {
         }
         return {
             fileId: media.fileId,
+            fileUniqueId: media.uniqueFileId,
             fileName,
             fileSize: media.fileSize || 0,
             mimeType: media.mimeType || 'video/mp4',
+            duration: media.duration || undefined,
         }
     }
 
     if (media.type === 'document') {
         return {
             fileId: media.fileId,
+            fileUniqueId: media.uniqueFileId,
             fileName: media.fileName || `document_${Date.now()}`,
             fileSize: media.fileSize || 0,
             mimeType: media.mimeType || 'application/octet-stream',
@@ -40,18 +58,22 @@ function extractMediaInfo(msg: any): MediaInfo | null {
     if (media.type === 'audio') {
         return {
             fileId: media.fileId,
+            fileUniqueId: media.uniqueFileId,
             fileName: media.fileName || `audio_${Date.now()}.mp3`,
             fileSize: media.fileSize || 0,
             mimeType: media.mimeType || 'audio/mpeg',
+            duration: media.duration || undefined,
         }
     }
 
     if (media.type === 'voice') {
         return {
             fileId: media.fileId,
+            fileUniqueId: media.uniqueFileId,
             fileName: `voice_${Date.now()}.ogg`,
             fileSize: media.fileSize || 0,
             mimeType: media.mimeType || 'audio/ogg',
+            duration: media.duration || undefined,
         }
     }
 
@@ -66,6 +88,125 @@ function formatSize(bytes: number): string {
     return `📦 Size: ${(bytes / 1024 / 1024).toFixed(2)} MB\n`
 }
 
+/**
+ * Format link lifetime for display
+ */
+function formatExpiry(expiresAt: number | undefined): string {
+    if (expiresAt === undefined) return ''
+    return `⏳ Expires in ${formatDuration(expiresAt - Date.now())}\n`
+}
+
+/**
+ * Callback data for the buttons under a file's links
+ */
+export const LinkButton = new CallbackDataBuilder('link', 'action', 'token')
+
+/**
+ * Telegram rejects URL buttons that point at localhost
+ */
+export const urlButtonsAllowed = !['localhost', '127.0.0.1', '[::1]'].includes(new URL(env.HOST).hostname)
+
+/**
+ * Build the links message for a registered file, with its inline keyboard
+ */
+export function renderFileLinks(token: string, entry: FileEntry): { text: InputText; replyMarkup: ReplyMarkup } {
+    const streamUrl = getStreamUrl(token)
+    const downloadUrl = getDownloadUrl(token)
+    const watchUrl = getWatchUrl(token)
+
+    // Format response
+    const sizeStr = formatSize(entry.fileSize)
+    const expiryStr = formatExpiry(entry.expiresAt)
+    // Subtitles are attached by replying to the source message, which local files don't have
+    const subtitleHint = entry.localPath === undefined ? '💬 Reply to your file with an .srt/.vtt to add subtitles\n' : ''
+    // Without URL buttons the other links have to be in the text
+    const links = urlButtonsAllowed
+        ? md`\`${streamUrl}\``
+        : md`\`${streamUrl}\`
+
+⬇️ **Resumable Download URL:**
+\`${downloadUrl}\`
+
+🌐 **Watch in Browser:**
+\`${watchUrl}\``
+
+    const text = md`✅ **File Ready**
+
+📁 Name: \`${entry.fileName}\`
+${sizeStr}🎭 Type: \`${entry.mimeType}\`
+
+🔗 **Stream URL (VLC/Browser):**
+${links}
+
+${expiryStr}📺 For VLC: Media → Open Network Stream
+${subtitleHint}`
+
+    const button = (text: string, action: string) => BotKeyboard.callback(text, LinkButton.build({ action, token }))
+    const replyMarkup = BotKeyboard.inline([
+        ...(urlButtonsAllowed ? [[
+            BotKeyboard.url('▶️ Stream', streamUrl),
+            BotKeyboard.url('⬇️ Download', downloadUrl),
+            BotKeyboard.url('🌐 Watch', watchUrl),
+        ]] : []),
+        [button('🔄 New link', 'rotate'), button('🗑 Revoke', 'revoke'), button('ℹ️ Info', 'info')],
+    ])
+
+    return { text, replyMarkup }
+}
+
+/**
+ * Reply with the links for a registered file
+ */
+export async function sendFileLinks(msg: MessageContext, token: string): Promise<void> {
+    const lookup = lookupFileEntry(token)
+    if (lookup.status === 'not_found') return
+
+    const { text, replyMarkup } = renderFileLinks(token, lookup.entry)
+    await msg.answerText(text, { replyMarkup })
+}
+
+/**
+ * Link a subtitle document to the media message it replies to
+ * Returns false if the message isn't a subtitle reply to one of the sender's files
+ */
+async function attachSubtitle(msg: any): Promise<boolean> {
+    const media = msg.media
+    const replyId = msg.replyToMessage?.id
+    if (media.type !== 'document' || !media.fileName || !isSubtitleFile(media.fileName) || !replyId) {
+        return false
+    }
+
+    const token = findTokenByMessage(msg.chat.id, replyId)
+    if (!token) return false
+
+    const lookup = lookupFileEntry(token)
+    if (lookup.status === 'not_found' || lookup.entry.ownerId !== msg.sender.id) return false
+
+    // Subtitles are converted in memory on each request
+    if ((media.fileSize ?? 0) > MAX_SUBTITLE_SIZE) {
+        await msg.answerText(`❌ Subtitle files must be under ${MAX_SUBTITLE_SIZE / 1024 / 1024} MB.`)
+        return true
+    }
+
+    const lang = guessSubtitleLang(media.fileName)
+    const index = addSubtitle(token, {
+        fileId: media.fileId,
+        fileName: media.fileName,
+        label: lang ? lang.toUpperCase() : media.fileName.replace(/\.[^.]+$/, ''),
+        lang,
+        fileSize: media.fileSize,
+        source: { chatId: msg.chat.id, messageId: msg.id },
+    })
+
+    await msg.answerText(
+        md`💬 Subtitle #${String((index ?? 0) + 1)} added to \`${lookup.entry.fileName}\`
+
+🌐 **Watch in browser:**
+\`${getWatchUrl(token)}\``
+    )
+    return true
+}
+
 /**
  * Handle media messages (video, document, audio, voice, video_note)
  */
@@ -82,6 +223,9 @@ export async function handleMedia(msg: any): Promise<void> {
         return
     }
 
+    // Subtitle files sent as a reply are linked to the original media
+    if (await attachSubtitle(msg)) return
+
     // Extract media info
     const mediaInfo = extractMediaInfo(msg)
     
@@ -98,28 +242,69 @@ export async function handleMedia(msg: any): Promise<void> {
     }
 
     // Register the file and get streaming token
-    const token = registerFile(mediaInfo)
+    const token = registerFile(mediaInfo, msg.sender.id, { chatId: msg.chat.id, messageId: msg.id })
 
-    const streamUrl = getStreamUrl(token)
-    const downloadUrl = getDownloadUrl(token)
+    // While a /batch is open, files are only acknowledged
+    const batch = addToBatch(msg.sender.id, token)
+    if (batch?.added === false) {
+        await msg.answerText(md`⚠️ The batch is full (${batch.size} files), \`${mediaInfo.fileName}\` was not added. Send /done to finish it.`)
+        return
+    }
+    if (batch) {
+        await msg.answerText(md`➕ Added \`${mediaInfo.fileName}\` (${batch.size} in batch, /done to finish)`)
+        return
+    }
 
-    // Format response
-    const sizeStr = formatSize(mediaInfo.fileSize)
+    await sendFileLinks(msg, token)
+}
 
-    await msg.answerText(
-        md`✅ **File Ready**
+/**
+ * Handle albums (media groups)
+ * The files are registered together and answered with one collection instead of a reply each
+ */
+export async function handleMediaGroup(msg: MessageContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
 
-📁 Name: \`${mediaInfo.fileName}\`
-${sizeStr}🎭 Type: \`${mediaInfo.mimeType}\`
+    const tokens: string[] = []
+    for (const message of msg.messages) {
+        const mediaInfo = extractMediaInfo(message)
+        if (!mediaInfo?.fileId) continue
+        tokens.push(registerFile(mediaInfo, msg.sender.id, { chatId: message.chat.id, messageId: message.id }))
+    }
 
-🔗 **Stream URL (VLC/Browser):**
-\`${streamUrl}\`
+    if (tokens.length === 0) {
+        await msg.answerText('ℹ️ None of the files in this album can be streamed.')
+        return
+    }
 
-⬇️ **Resumable Download URL:**
-\`${downloadUrl}\`
+    const results = tokens.map(token => addToBatch(msg.sender.id, token))
+    const batch = results.at(-1)
+    if (batch) {
+        const added = results.filter(result => result?.added).length
+        const skipped = tokens.length - added
+        await msg.answerText(skipped > 0
+            ? `⚠️ The batch is full (${batch.size} files), ${skipped} of ${tokens.length} file(s) were not added. Send /done to finish it.`
+            : `➕ Added ${tokens.length} file(s) (${batch.size} in batch, /done to finish)`)
+        return
+    }
+
+    if (tokens.length === 1) {
+        await sendFileLinks(msg, tokens[0])
+        return
+    }
 
-📺 For VLC: Media → Open Network Stream`
+    // Albums carry their caption on one of the messages, usually the first
+    const caption = msg.messages.map(message => message.text).find(Boolean)?.split('\n')[0]
+    const token = createCollection(
+        msg.sender.id,
+        caption || `Album of ${tokens.length} files`,
+        tokens,
+        msg.groupedIdUnique ?? undefined
     )
+    await sendCollectionLinks(msg, token)
 }
 
 //removed below lines which was on 118 and 119 coz it wasnt needed, previous commit did't work as expected
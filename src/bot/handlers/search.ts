@@ -0,0 +1,90 @@
+import { md } from '@mtcute/markdown-parser'
+import { BotInline, BotInlineMessage, BotKeyboard } from '@mtcute/node'
+import type { InlineQueryContext, MessageContext } from '@mtcute/dispatcher'
+import { SEARCH_RESULTS, INLINE_RESULTS } from '../../config/constants.js'
+import { isAllowed, UNAUTHORIZED_MESSAGE } from '../middleware/auth.js'
+import { searchFiles, getStreamUrl, getDownloadUrl, getWatchUrl } from '../../server/utils/file-store.js'
+import { urlButtonsAllowed } from './media.js'
+import type { FileEntry } from '../../types/index.js'
+
+/**
+ * Short description of an entry for result lists: size and the caption's first line
+ */
+function describe(entry: FileEntry): string {
+    const size = entry.fileSize > 0 ? `${(entry.fileSize / 1024 / 1024).toFixed(1)} MB` : ''
+    const caption = entry.caption?.split('\n')[0] ?? ''
+    return [size, caption].filter(Boolean).join(' · ')
+}
+
+/**
+ * Handle /search <query> command
+ */
+export async function handleSearch(msg: MessageContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const query = msg.text.replace(/^\/\S+\s*/, '').trim()
+    if (!query) {
+        await msg.answerText(md`Usage: \`/search <words from the file name or caption>\``)
+        return
+    }
+
+    const results = searchFiles(msg.sender.id, query, SEARCH_RESULTS)
+    if (results.length === 0) {
+        await msg.answerText(md`🔍 Nothing found for \`${query}\``)
+        return
+    }
+
+    const lines = results.map(({ token, entry }, i) => {
+        const description = describe(entry)
+        return `${i + 1}. ${entry.fileName}${description ? ` (${description})` : ''}\n    ${getStreamUrl(token)}`
+    })
+
+    await msg.answerText(`🔍 Results for "${query}"\n\n${lines.join('\n\n')}`, { disableWebPreview: true })
+}
+
+/**
+ * Handle inline queries (@bot <query>)
+ * Each result card sends a message with the file's stream, download and watch links
+ */
+export async function handleInlineQuery(query: InlineQueryContext): Promise<void> {
+    // Results are per user, so never let Telegram share them between users
+    const options = { private: true, cacheTime: 10 }
+
+    if (!isAllowed(query.user.id) || !query.query.trim()) {
+        await query.answer([], options)
+        return
+    }
+
+    const results = searchFiles(query.user.id, query.query, INLINE_RESULTS).map(({ token, entry }) => {
+        const streamUrl = getStreamUrl(token)
+        const downloadUrl = getDownloadUrl(token)
+        const watchUrl = getWatchUrl(token)
+
+        return BotInline.article(token, {
+            title: entry.fileName,
+            description: describe(entry) || entry.mimeType,
+            message: BotInlineMessage.text(
+                md`📁 **${entry.fileName}**
+
+🔗 **Stream:** \`${streamUrl}\`
+⬇️ **Download:** \`${downloadUrl}\`
+🌐 **Watch:** \`${watchUrl}\``,
+                {
+                    disableWebPreview: true,
+                    replyMarkup: urlButtonsAllowed
+                        ? BotKeyboard.inline([[
+                            BotKeyboard.url('▶️ Stream', streamUrl),
+                            BotKeyboard.url('⬇️ Download', downloadUrl),
+                            BotKeyboard.url('🌐 Watch', watchUrl),
+                        ]])
+                        : undefined,
+                }
+            ),
+        })
+    })
+
+    await query.answer(results, options)
+}
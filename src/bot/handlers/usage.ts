@@ -0,0 +1,36 @@
+import { md } from '@mtcute/markdown-parser'
+import type { MessageContext } from '@mtcute/dispatcher'
+import { isAllowed, UNAUTHORIZED_MESSAGE } from '../middleware/auth.js'
+import { getUsage } from '../../server/utils/usage.js'
+import { formatDuration } from '../../utils/duration.js'
+
+/**
+ * Format bytes used against a quota, e.g. "120.5 MB / 1024.0 MB (12%)"
+ */
+function formatQuota(used: number, quota: number, resetsIn: number): string {
+    const usedStr = `${(used / 1024 / 1024).toFixed(1)} MB`
+    if (quota <= 0) return `${usedStr} (no limit)`
+    const percent = Math.min(100, Math.round(used / quota * 100))
+    return `${usedStr} / ${(quota / 1024 / 1024).toFixed(1)} MB (${percent}%), resets in ${formatDuration(resetsIn * 1000)}`
+}
+
+/**
+ * Handle /usage command
+ * Shows how much the sender's links have served against their quotas
+ */
+export async function handleUsage(msg: MessageContext): Promise<void> {
+    if (!isAllowed(msg.sender.id)) {
+        await msg.answerText(UNAUTHORIZED_MESSAGE)
+        return
+    }
+
+    const usage = getUsage(msg.sender.id)
+
+    await msg.answerText(
+        md`📈 **Your usage**
+
+**Today:** ${formatQuota(usage.daily, usage.dailyQuota, usage.dailyResetsIn)}
+**This month:** ${formatQuota(usage.monthly, usage.monthlyQuota, usage.monthlyResetsIn)}
+**All time:** ${(usage.total / 1024 / 1024).toFixed(1)} MB`
+    )
+}
@@ -9,6 +9,14 @@ export function isAllowed(userId: number): boolean {
     return env.ALLOWED_USERS.includes(userId)
 }
 
+/**
+ * Check if a Telegram user may use admin commands
+ * Unlike isAllowed, an empty list grants nobody
+ */
+export function isAdmin(userId: number): boolean {
+    return env.ADMIN_USERS.includes(userId)
+}
+
 /**
  * Unauthorized response message
  */
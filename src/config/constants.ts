@@ -8,6 +8,39 @@ export const ALIGN_LARGE_FILE = 1024 * 1024      // 1MB alignment for large file
 export const ALIGN_SMALL_FILE = 4 * 1024         // 4KB alignment for small files
 export const LARGE_FILE_THRESHOLD = 10 * 1024 * 1024  // 10MB threshold
 
+// Parts fetched ahead of the one being written, per stream
+export const READAHEAD_PARTS = 2
+
+// Mid-stream retries for transient Telegram/network errors
+export const STREAM_MAX_RETRIES = 5                 // Per HTTP response
+export const STREAM_RETRY_BASE_DELAY = 1000         // 1s, doubled per consecutive failure
+export const STREAM_RETRY_MAX_DELAY = 30 * 1000     // 30s backoff cap
+export const MAX_FLOOD_WAIT = 60 * 1000             // Give up on longer FLOOD_WAITs
+
+// Admission queue
+export const ADMISSION_RETRY_AFTER = 5              // Seconds, sent when a request gives up waiting
+export const ADMISSION_WAIT_SAMPLES = 100           // Recent waits kept for avg/max in stats
+export const PREEMPT_IDLE_MS = 10 * 1000            // A connection idle this long may be replaced by a new one
+
+// Subtitle documents are converted in memory, so they are capped
+export const MAX_SUBTITLE_SIZE = 5 * 1024 * 1024    // 5MB
+
+// Window for the bandwidth rates shown in stats
+export const RATE_METER_WINDOW = 5                  // Seconds
+
+// Channel /reindex
+export const REINDEX_BATCH_SIZE = 100               // Message IDs fetched per request (Telegram's max)
+export const REINDEX_MAX_GAP = 1000                 // Stop after this many missing IDs past the last post found
+
+// Search
+export const SEARCH_RESULTS = 10                    // Shown by /search
+export const INLINE_RESULTS = 20                    // Cards returned to an inline query
+export const API_SEARCH_MAX_RESULTS = 50            // Cap on /api/search?limit=
+
+// Collections
+export const BATCH_TIMEOUT = 60 * 60 * 1000         // An unfinished /batch is dropped after an hour idle
+export const MAX_BATCH_ITEMS = 200
+
 // MIME type mappings
 export const MIME_TYPES: Record<string, string> = {
     // Video
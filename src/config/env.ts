@@ -1,25 +1,84 @@
 import 'dotenv/config'
 import { z } from 'zod'
+import { parseDuration } from '../utils/duration.js'
+import { isValidCidr } from '../server/utils/ip.js'
 
 // Render provides RENDER_EXTERNAL_URL automatically
 // e.g., https://your-app.onrender.com
 const PORT = parseInt(process.env.PORT || '8080', 10)
 const defaultHost = process.env.RENDER_EXTERNAL_URL || `http://localhost:${PORT}`
 
+// Duration string ("90s", "12h", "7d") parsed to milliseconds
+const duration = (fallback: string) => z.string().default(fallback).transform((val, ctx) => {
+    const ms = parseDuration(val)
+    if (ms === null) {
+        ctx.addIssue({ code: 'custom', message: `Invalid duration: ${val}` })
+        return z.NEVER
+    }
+    return ms
+})
+
+// Comma-separated Telegram user or chat IDs
+const telegramIds = () => z.string().default('').transform(val =>
+    val ? val.split(',').map(id => parseInt(id.trim(), 10)).filter(id => !isNaN(id)) : []
+)
+
 const r = z.object({
     API_ID: z.coerce.number(),
     API_HASH: z.string(),
     BOT_TOKEN: z.string(),
     HOST: z.string().url().default(defaultHost),
+    // Comma-separated IPs/CIDRs of reverse proxies whose forwarding headers are trusted (empty = none)
+    TRUSTED_PROXIES: z.string().default('').transform((val, ctx) => {
+        const ranges = val.split(',').map(range => range.trim()).filter(Boolean)
+        for (const range of ranges.filter(range => !isValidCidr(range))) {
+            ctx.addIssue({ code: 'custom', message: `Invalid IP or CIDR: ${range}` })
+        }
+        return ranges
+    }),
     PORT: z.coerce.number().default(8080),
     MAX_CONCURRENT_STREAMS: z.coerce.number().default(2),  // Per token
     MAX_TOTAL_STREAMS: z.coerce.number().default(4),       // Global limit
     MAX_USERS: z.coerce.number().default(1),               // For reference
+    // How long a request over the stream limits waits for a slot (0 = reject immediately)
+    ADMISSION_TIMEOUT: duration('10s'),
+    ADMISSION_QUEUE_SIZE: z.coerce.number().default(32),
     MAX_FILE_ENTRIES: z.coerce.number().default(50),
+    // File store backend; sqlite falls back to json if it can't be opened
+    FILE_STORE: z.enum(['sqlite', 'json']).default('sqlite'),
+    // Default lifetime of new links, e.g. "12h" or "7d" (0 = never expire)
+    DEFAULT_LINK_TTL: duration('0'),
+    // How long shutdown waits for active streams to finish, e.g. "30s"
+    SHUTDOWN_DRAIN_TIMEOUT: duration('25s'),
+    // On-disk cache for Telegram file parts (0 = disabled)
+    CACHE_MAX_SIZE_MB: z.coerce.number().default(0),
+    CACHE_DIR: z.string().default('bot-data/cache'),
+    // Directory of local media files that can be registered with /local (unset = disabled)
+    LOCAL_MEDIA_DIR: z.string().optional(),
+    // Secret for signing stream URLs (generated and stored in bot-data if unset; empty is an error)
+    LINK_SECRET: z.string().trim().min(16, 'LINK_SECRET must be at least 16 characters').optional(),
+    // Reject /stream and /download requests without a valid signature
+    REQUIRE_SIGNED_URLS: z.string().default('true').transform(val => val.toLowerCase() !== 'false'),
+    // Bandwidth limits in KB/s (0 = unlimited); each stream may burst BANDWIDTH_BURST_MB first
+    STREAM_BANDWIDTH_KBPS: z.coerce.number().default(0),
+    IP_BANDWIDTH_KBPS: z.coerce.number().default(0),
+    GLOBAL_BANDWIDTH_KBPS: z.coerce.number().default(0),
+    BANDWIDTH_BURST_MB: z.coerce.number().default(8),
+    // Bytes each user's links may serve per UTC day / month, in MB (0 = unlimited)
+    DAILY_QUOTA_MB: z.coerce.number().default(0),
+    MONTHLY_QUOTA_MB: z.coerce.number().default(0),
+    // JSON-lines access log, one record per HTTP request (empty = disabled); rotated by size
+    ACCESS_LOG_FILE: z.string().default('logs/access.log'),
+    ACCESS_LOG_MAX_SIZE_MB: z.coerce.number().default(20),
+    ACCESS_LOG_MAX_FILES: z.coerce.number().default(5),
+    // Bearer token required for /metrics (unset = public)
+    METRICS_TOKEN: z.string().optional(),
     // Comma-separated list of allowed Telegram user IDs (empty = allow all)
-    ALLOWED_USERS: z.string().default('').transform(val => 
-        val ? val.split(',').map(id => parseInt(id.trim(), 10)).filter(id => !isNaN(id)) : []
-    ),
+    ALLOWED_USERS: telegramIds(),
+    // Comma-separated list of Telegram user IDs allowed to use admin commands (empty = none)
+    ADMIN_USERS: telegramIds(),
+    // Comma-separated channel IDs (-100...) whose media posts are registered automatically (empty = none)
+    INDEX_CHANNELS: telegramIds(),
 }).safeParse(process.env)
 
 if (!r.success) {
@@ -3,15 +3,31 @@ import { TelegramClient } from '@mtcute/node'
 
 import { env } from './config/env.js'
 import { botLogger } from './utils/logger.js'
-import { startStreamServer } from './server/index.js'
+import { startStreamServer, drainStreamServer } from './server/index.js'
+import { flushStore } from './server/utils/file-store.js'
+import { flushUsage } from './server/utils/usage.js'
 import { handleStart } from './bot/handlers/start.js'
-import { handleMedia } from './bot/handlers/media.js'
+import { handleMedia, handleMediaGroup, LinkButton } from './bot/handlers/media.js'
+import { handleBatch, handleDone } from './bot/handlers/collections.js'
+import { handleRevoke, handleExtend, handleShare, handlePin, handleLinkButton } from './bot/handlers/links.js'
+import { handleLocal } from './bot/handlers/local.js'
+import { handleUsage } from './bot/handlers/usage.js'
+import { handleSearch, handleInlineQuery } from './bot/handlers/search.js'
+import { handleApiKey, handleWebDav } from './bot/handlers/api.js'
+import {
+    handleChannelPost, handleChannelGroup, handleChannelEdit, handleChannelDelete, handleReindex,
+} from './bot/handlers/channels.js'
+import {
+    handleStats, handleStreams, handleLinks, handleLimits, handleKillStream, KillStreamButton,
+} from './bot/handlers/admin.js'
 
 // Initialize Telegram client
 const tg = new TelegramClient({
     apiId: env.API_ID,
     apiHash: env.API_HASH,
     storage: 'bot-data/session',
+    // Deliver albums as one update, so they become one collection
+    updates: { messageGroupingInterval: 250 },
 })
 
 // Handle mtcute client-level errors (connection issues, internal errors)
@@ -24,14 +40,59 @@ const dp = Dispatcher.for(tg)
 
 // Register handlers
 dp.onNewMessage(filters.start, handleStart)
+dp.onNewMessage(filters.command('revoke'), handleRevoke)
+dp.onNewMessage(filters.command('extend'), handleExtend)
+dp.onNewMessage(filters.command('share'), handleShare)
+dp.onNewMessage(filters.command(['pin', 'unpin']), handlePin)
+dp.onNewMessage(filters.command('local'), handleLocal)
+dp.onNewMessage(filters.command('usage'), handleUsage)
+dp.onNewMessage(filters.command('search'), handleSearch)
+dp.onNewMessage(filters.command('batch'), handleBatch)
+dp.onNewMessage(filters.command('done'), handleDone)
+dp.onNewMessage(filters.command('apikey'), handleApiKey)
+dp.onNewMessage(filters.command('webdav'), handleWebDav)
+dp.onNewMessage(filters.command('stats'), handleStats)
+dp.onNewMessage(filters.command('streams'), handleStreams)
+dp.onNewMessage(filters.command('links'), handleLinks)
+dp.onNewMessage(filters.command('limits'), handleLimits)
+dp.onNewMessage(filters.command('reindex'), handleReindex)
+dp.onCallbackQuery(KillStreamButton.filter(), handleKillStream)
+dp.onCallbackQuery(LinkButton.filter(), handleLinkButton)
+dp.onInlineQuery(handleInlineQuery)
+// Posts in indexed channels are registered for the channel, not answered
+dp.onNewMessage(filters.chatId(env.INDEX_CHANNELS), handleChannelPost)
+dp.onMessageGroup(filters.chatId(env.INDEX_CHANNELS), handleChannelGroup)
+dp.onEditMessage(filters.chatId(env.INDEX_CHANNELS), handleChannelEdit)
+dp.onDeleteMessage(handleChannelDelete)
 dp.onNewMessage(filters.or(filters.media, filters.roundMessage), handleMedia)
+dp.onMessageGroup(handleMediaGroup)
 
 // Graceful shutdown handler
 let server: ReturnType<typeof startStreamServer>
 
+let shuttingDown = false
+
 const shutdown = async () => {
+    // A second signal skips the drain
+    if (shuttingDown) {
+        botLogger.warn('Forced exit')
+        flushStore()
+        flushUsage()
+        process.exit(1)
+    }
+    shuttingDown = true
     botLogger.info('Shutting down gracefully...')
-    server?.close()
+
+    try {
+        if (server) {
+            await drainStreamServer(server, env.SHUTDOWN_DRAIN_TIMEOUT)
+        }
+        flushStore()
+        flushUsage()
+        await tg.destroy()
+    } catch (error) {
+        botLogger.error('Error during shutdown', { error })
+    }
     process.exit(0)
 }
 
@@ -0,0 +1,83 @@
+import type http from 'node:http'
+import type { z } from 'zod'
+
+/**
+ * JSON plumbing for the HTTP API
+ * Handlers throw ApiError; the router turns it into a { error: { code, message } } body.
+ */
+
+const MAX_BODY_BYTES = 64 * 1024
+
+/**
+ * Error with the HTTP status and machine-readable code to answer with
+ */
+export class ApiError extends Error {
+    constructor(
+        readonly status: number,
+        readonly code: string,
+        message: string,
+        readonly details?: unknown,
+        readonly headers: http.OutgoingHttpHeaders = {}
+    ) {
+        super(message)
+        this.name = 'ApiError'
+    }
+}
+
+/**
+ * Send a JSON response
+ */
+export function sendJson(res: http.ServerResponse, statusCode: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+    res.writeHead(statusCode, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Cache-Control': 'no-store',
+        ...headers,
+    })
+    res.end(JSON.stringify(body))
+}
+
+/**
+ * Send an ApiError as its JSON error body
+ */
+export function sendApiError(res: http.ServerResponse, error: ApiError): void {
+    sendJson(res, error.status, {
+        error: { code: error.code, message: error.message, ...(error.details ? { details: error.details } : {}) },
+    }, error.headers)
+}
+
+/**
+ * Read and parse a JSON request body (an empty body reads as {})
+ */
+export async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = []
+    let size = 0
+    for await (const chunk of req) {
+        size += chunk.length
+        if (size > MAX_BODY_BYTES) {
+            throw new ApiError(413, 'payload_too_large', `Request body is larger than ${MAX_BODY_BYTES} bytes`)
+        }
+        chunks.push(chunk)
+    }
+
+    const text = Buffer.concat(chunks).toString('utf8').trim()
+    if (!text) return {}
+    try {
+        return JSON.parse(text)
+    } catch {
+        throw new ApiError(400, 'invalid_json', 'Request body is not valid JSON')
+    }
+}
+
+/**
+ * Validate input against a schema, throwing a 400 listing every problem
+ */
+export function validate<T extends z.ZodType>(schema: T, input: unknown): z.output<T> {
+    const result = schema.safeParse(input)
+    if (!result.success) {
+        throw new ApiError(400, 'invalid_request', 'Request validation failed', result.error.issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+        })))
+    }
+    return result.data
+}
@@ -0,0 +1,250 @@
+import type http from 'node:http'
+import type { TelegramClient } from '@mtcute/node'
+import { env } from '../../config/env.js'
+import { streamLogger } from '../../utils/logger.js'
+import { isAdmin, isAllowed } from '../../bot/middleware/auth.js'
+import { extractMediaInfo } from '../../bot/handlers/media.js'
+import {
+    registerFile, lookupFileEntry, listFilesByOwner, searchFiles, pinFile, revokeFile,
+    getStreamUrl, getDownloadUrl, getWatchUrl,
+} from '../utils/file-store.js'
+import { authenticateApiKey } from '../utils/api-keys.js'
+import { getPublicBaseUrl } from '../utils/proxy.js'
+import { getStats, getLimits, listActiveStreams } from '../middleware/rate-limit.js'
+import type { RequestContext } from '../utils/access-log.js'
+import type { FileEntry, FileLookup } from '../../types/index.js'
+import { ApiError, sendJson, sendApiError, readJsonBody, validate } from './http.js'
+import { ListFilesQuery, SearchQuery, RegisterFileBody, UpdateFileBody, type FileResource } from './schemas.js'
+import { getOpenApiDocument } from './openapi.js'
+
+/**
+ * JSON API under /api/v1, authenticated with per-user API keys (see /apikey)
+ * Users manage their own links; admins may also inspect and manage anyone's.
+ */
+
+/**
+ * Resolve the caller from their API key
+ */
+function authenticate(req: http.IncomingMessage): number {
+    const userId = authenticateApiKey(req)
+    if (userId === null || !isAllowed(userId)) {
+        throw new ApiError(401, 'unauthorized', 'Missing or invalid API key', undefined, { 'WWW-Authenticate': 'Bearer' })
+    }
+    return userId
+}
+
+function methodNotAllowed(allowed: string[]): ApiError {
+    return new ApiError(405, 'method_not_allowed', `Use ${allowed.join(' or ')}`, undefined, { 'Allow': allowed.join(', ') })
+}
+
+/**
+ * API representation of an entry; links are built for the host the request came in on
+ */
+function serializeEntry(
+    token: string,
+    entry: FileEntry,
+    status: Exclude<FileLookup['status'], 'not_found'>,
+    baseUrl: string
+): FileResource {
+    return {
+        token,
+        status,
+        fileName: entry.fileName,
+        fileSize: entry.fileSize,
+        mimeType: entry.mimeType,
+        duration: entry.duration ?? null,
+        caption: entry.caption ?? null,
+        ownerId: entry.ownerId ?? null,
+        source: entry.chatId !== undefined && entry.messageId !== undefined
+            ? { chatId: entry.chatId, messageId: entry.messageId }
+            : null,
+        pinned: entry.pinned ?? false,
+        views: entry.views ?? 0,
+        bytesServed: entry.bytesServed ?? 0,
+        createdAt: new Date(entry.createdAt).toISOString(),
+        expiresAt: entry.expiresAt !== undefined ? new Date(entry.expiresAt).toISOString() : null,
+        links: status === 'active'
+            ? {
+                stream: getStreamUrl(token, { baseUrl }),
+                download: getDownloadUrl(token, { baseUrl }),
+                watch: getWatchUrl(token, { baseUrl }),
+            }
+            : null,
+    }
+}
+
+/**
+ * Serialize an entry's current state
+ */
+function describeToken(token: string, baseUrl: string): FileResource {
+    const lookup = lookupFileEntry(token)
+    if (lookup.status === 'not_found') throw new ApiError(404, 'not_found', 'Link not found')
+    return serializeEntry(token, lookup.entry, lookup.status, baseUrl)
+}
+
+/**
+ * Check the caller may manage a token
+ * Other users' links are reported as missing to avoid leaking their existence
+ */
+function requireOwned(userId: number, token: string): void {
+    const lookup = lookupFileEntry(token)
+    if (lookup.status === 'not_found' || (lookup.entry.ownerId !== userId && !isAdmin(userId))) {
+        throw new ApiError(404, 'not_found', 'Link not found')
+    }
+}
+
+/**
+ * POST /api/v1/files - register the media of a Telegram message
+ */
+async function registerFromMessage(
+    req: http.IncomingMessage,
+    tg: TelegramClient,
+    userId: number
+): Promise<string> {
+    const body = validate(RegisterFileBody, await readJsonBody(req))
+
+    // Only the caller's own chat with the bot, or a catalog channel
+    if (body.chatId !== userId && !env.INDEX_CHANNELS.includes(body.chatId)) {
+        throw new ApiError(403, 'forbidden_chat', 'You can only register messages from your chat with the bot or an indexed channel')
+    }
+
+    let message
+    try {
+        [message] = await tg.getMessages(body.chatId, body.messageId)
+    } catch (error) {
+        streamLogger.warn('API: failed to fetch message', { chatId: body.chatId, messageId: body.messageId, error })
+        throw new ApiError(502, 'telegram_error', 'Could not fetch the message from Telegram')
+    }
+    if (!message) throw new ApiError(404, 'message_not_found', 'Message not found')
+
+    const info = extractMediaInfo(message)
+    if (!info?.fileId) throw new ApiError(422, 'unsupported_media', 'The message has no streamable media')
+
+    return registerFile(info, userId, { chatId: body.chatId, messageId: body.messageId }, body.ttl ?? env.DEFAULT_LINK_TTL)
+}
+
+/**
+ * Route /api/v1/* once the caller is known
+ */
+async function route(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    tg: TelegramClient,
+    url: URL,
+    parts: string[],
+    context: RequestContext
+): Promise<void> {
+    const method = req.method || 'GET'
+    const baseUrl = getPublicBaseUrl(req)
+    const query = Object.fromEntries(url.searchParams)
+
+    if (parts[0] === 'openapi.json' && parts.length === 1) {
+        context.route = '/api/v1/openapi.json'
+        if (method !== 'GET') throw methodNotAllowed(['GET'])
+        sendJson(res, 200, getOpenApiDocument(`${baseUrl}/api/v1`))
+        return
+    }
+
+    if (parts[0] === 'files' && parts.length === 1) {
+        context.route = '/api/v1/files'
+        const userId = authenticate(req)
+        if (method === 'GET') {
+            const { limit, offset } = validate(ListFilesQuery, query)
+            // One extra row tells whether there is another page
+            const files = listFilesByOwner(userId, limit + 1, offset)
+            sendJson(res, 200, {
+                files: files.slice(0, limit).map(({ token }) => describeToken(token, baseUrl)),
+                limit,
+                offset,
+                hasMore: files.length > limit,
+            })
+            return
+        }
+        if (method === 'POST') {
+            const token = await registerFromMessage(req, tg, userId)
+            sendJson(res, 201, describeToken(token, baseUrl), { 'Location': `${baseUrl}/api/v1/files/${token}` })
+            return
+        }
+        throw methodNotAllowed(['GET', 'POST'])
+    }
+
+    if (parts[0] === 'files' && parts.length === 2) {
+        const token = parts[1]
+        context.route = '/api/v1/files/:token'
+        context.token = token
+        const userId = authenticate(req)
+        requireOwned(userId, token)
+
+        if (method === 'GET') {
+            sendJson(res, 200, describeToken(token, baseUrl))
+            return
+        }
+        if (method === 'PATCH') {
+            const { pinned } = validate(UpdateFileBody, await readJsonBody(req))
+            pinFile(token, pinned)
+            sendJson(res, 200, describeToken(token, baseUrl))
+            return
+        }
+        if (method === 'DELETE') {
+            revokeFile(token)
+            sendJson(res, 200, describeToken(token, baseUrl))
+            return
+        }
+        throw methodNotAllowed(['GET', 'PATCH', 'DELETE'])
+    }
+
+    if (parts[0] === 'search' && parts.length === 1) {
+        context.route = '/api/v1/search'
+        const userId = authenticate(req)
+        if (method !== 'GET') throw methodNotAllowed(['GET'])
+        const { q, limit } = validate(SearchQuery, query)
+        sendJson(res, 200, {
+            query: q,
+            results: searchFiles(userId, q, limit).map(({ token, entry }) => serializeEntry(token, entry, 'active', baseUrl)),
+        })
+        return
+    }
+
+    if (parts[0] === 'stats' && parts.length === 1) {
+        context.route = '/api/v1/stats'
+        const userId = authenticate(req)
+        if (method !== 'GET') throw methodNotAllowed(['GET'])
+        if (!isAdmin(userId)) throw new ApiError(403, 'forbidden', 'Stats are only available to admins')
+        sendJson(res, 200, { ...getStats(), limits: getLimits(), streams: listActiveStreams() })
+        return
+    }
+
+    context.route = '/api/v1/*'
+    throw new ApiError(404, 'not_found', 'No such endpoint')
+}
+
+/**
+ * Handle a request under /api
+ * /api/search is kept as an alias of /api/v1/search
+ */
+export async function handleApiRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    tg: TelegramClient,
+    url: URL,
+    context: RequestContext
+): Promise<void> {
+    const parts = url.pathname.split('/').filter(Boolean).slice(1)
+    const v1Parts = parts[0] === 'v1' ? parts.slice(1) : parts[0] === 'search' && parts.length === 1 ? parts : null
+
+    try {
+        if (!v1Parts) {
+            context.route = '/api/*'
+            throw new ApiError(404, 'not_found', 'No such endpoint')
+        }
+        await route(req, res, tg, url, v1Parts, context)
+    } catch (error) {
+        if (error instanceof ApiError) {
+            sendApiError(res, error)
+            return
+        }
+        streamLogger.error('API request failed', { route: context.route, error })
+        context.endReason = 'error'
+        sendApiError(res, new ApiError(500, 'internal_error', 'Internal server error'))
+    }
+}
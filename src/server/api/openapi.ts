@@ -0,0 +1,133 @@
+import { z } from 'zod'
+import {
+    ListFilesQuery, SearchQuery, RegisterFileBody, UpdateFileBody,
+    File, FileList, SearchResults, Stats, ErrorBody,
+} from './schemas.js'
+
+/**
+ * OpenAPI 3.1 document for /api/v1, served at /api/v1/openapi.json
+ * Schemas come from the same zod definitions the handlers validate with.
+ */
+
+type JsonSchema = Record<string, unknown>
+
+function schema(type: z.ZodType, io: 'input' | 'output' = 'output'): JsonSchema {
+    const { $schema, ...rest } = z.toJSONSchema(type, { io, unrepresentable: 'any' }) as JsonSchema
+    return rest
+}
+
+/**
+ * Query parameters from an object schema, one per field
+ */
+function queryParameters(type: z.ZodObject): JsonSchema[] {
+    const { properties = {}, required = [] } = schema(type, 'input') as {
+        properties?: Record<string, JsonSchema>
+        required?: string[]
+    }
+    return Object.entries(properties).map(([name, property]) => ({
+        name,
+        in: 'query',
+        required: required.includes(name),
+        schema: property,
+        ...(property.description ? { description: property.description } : {}),
+    }))
+}
+
+function json(ref: string, description: string) {
+    return { description, content: { 'application/json': { schema: { $ref: `#/components/schemas/${ref}` } } } }
+}
+
+const errors = {
+    400: json('Error', 'Invalid request'),
+    401: json('Error', 'Missing or invalid API key'),
+}
+
+const tokenParameter = { name: 'token', in: 'path', required: true, schema: { type: 'string' } }
+
+let document: JsonSchema | undefined
+
+/**
+ * Build the document for a server URL (built once, then the server URL is swapped in)
+ */
+export function getOpenApiDocument(serverUrl: string): JsonSchema {
+    document ??= {
+        openapi: '3.1.0',
+        info: {
+            title: 'TgFlix API',
+            version: '1.0.0',
+            description: 'Manage streaming links programmatically. Get an API key by sending /apikey to the bot.',
+        },
+        security: [{ bearer: [] }, { apiKey: [] }],
+        paths: {
+            '/files': {
+                get: {
+                    summary: 'List your links, newest first',
+                    parameters: queryParameters(ListFilesQuery),
+                    responses: { 200: json('FileList', 'Your links'), ...errors },
+                },
+                post: {
+                    summary: 'Register a file from a Telegram message',
+                    requestBody: {
+                        required: true,
+                        content: { 'application/json': { schema: { $ref: '#/components/schemas/RegisterFile' } } },
+                    },
+                    responses: {
+                        201: json('File', 'The link (an existing one if you already registered this file)'),
+                        ...errors,
+                        403: json('Error', 'The chat is not yours or an indexed channel'),
+                        404: json('Error', 'The message does not exist'),
+                        422: json('Error', 'The message has no streamable media'),
+                    },
+                },
+            },
+            '/files/{token}': {
+                parameters: [tokenParameter],
+                get: {
+                    summary: 'Inspect a link',
+                    responses: { 200: json('File', 'The link'), ...errors, 404: json('Error', 'No such link') },
+                },
+                patch: {
+                    summary: 'Pin or unpin a link',
+                    requestBody: {
+                        required: true,
+                        content: { 'application/json': { schema: { $ref: '#/components/schemas/UpdateFile' } } },
+                    },
+                    responses: { 200: json('File', 'The updated link'), ...errors, 404: json('Error', 'No such link') },
+                },
+                delete: {
+                    summary: 'Revoke a link (requests for it get 410 Gone)',
+                    responses: { 200: json('File', 'The revoked link'), ...errors, 404: json('Error', 'No such link') },
+                },
+            },
+            '/search': {
+                get: {
+                    summary: 'Search your links and indexed channels by file name and caption',
+                    parameters: queryParameters(SearchQuery),
+                    responses: { 200: json('SearchResults', 'Active matching links, best first'), ...errors },
+                },
+            },
+            '/stats': {
+                get: {
+                    summary: 'Live stream stats (admins only)',
+                    responses: { 200: json('Stats', 'Current stats'), ...errors, 403: json('Error', 'Not an admin') },
+                },
+            },
+        },
+        components: {
+            securitySchemes: {
+                bearer: { type: 'http', scheme: 'bearer' },
+                apiKey: { type: 'apiKey', in: 'header', name: 'X-Api-Key' },
+            },
+            schemas: {
+                File: schema(File),
+                FileList: schema(FileList),
+                SearchResults: schema(SearchResults),
+                Stats: schema(Stats),
+                RegisterFile: schema(RegisterFileBody, 'input'),
+                UpdateFile: schema(UpdateFileBody, 'input'),
+                Error: schema(ErrorBody),
+            },
+        },
+    }
+    return { ...document, servers: [{ url: serverUrl }] }
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod'
+import { API_SEARCH_MAX_RESULTS } from '../../config/constants.js'
+import { parseDuration } from '../../utils/duration.js'
+
+/**
+ * Request and response shapes of /api/v1
+ * Requests are validated with these; the OpenAPI document is generated from all of them.
+ */
+
+// Duration string ("90s", "12h", "7d") parsed to milliseconds
+const duration = z.string().transform((val, ctx) => {
+    const ms = parseDuration(val)
+    if (ms === null) {
+        ctx.addIssue({ code: 'custom', message: `Invalid duration: ${val}` })
+        return z.NEVER
+    }
+    return ms
+})
+
+export const ListFilesQuery = z.object({
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+})
+
+export const SearchQuery = z.object({
+    q: z.string().trim().min(1).describe('Words from the file name or caption'),
+    limit: z.coerce.number().int().min(1).max(API_SEARCH_MAX_RESULTS).default(20),
+})
+
+export const RegisterFileBody = z.object({
+    chatId: z.number().int().describe('Chat of the message: your own user ID (your chat with the bot) or an indexed channel'),
+    messageId: z.number().int().positive(),
+    ttl: duration.optional().describe('Link lifetime, e.g. "12h" or "7d" ("0" = never expire); defaults to DEFAULT_LINK_TTL'),
+})
+
+export const UpdateFileBody = z.object({
+    pinned: z.boolean().describe('Pinned links are never evicted when the store is full'),
+})
+
+export const FileLinks = z.object({
+    stream: z.string(),
+    download: z.string(),
+    watch: z.string(),
+})
+
+export const File = z.object({
+    token: z.string(),
+    status: z.enum(['active', 'expired', 'revoked', 'dead']),
+    fileName: z.string(),
+    fileSize: z.number(),
+    mimeType: z.string(),
+    duration: z.number().nullable().describe('Seconds'),
+    caption: z.string().nullable(),
+    ownerId: z.number().nullable(),
+    source: z.object({ chatId: z.number(), messageId: z.number() }).nullable(),
+    pinned: z.boolean(),
+    views: z.number(),
+    bytesServed: z.number(),
+    createdAt: z.string(),
+    expiresAt: z.string().nullable(),
+    links: FileLinks.nullable().describe('Signed links; null unless the link is active'),
+})
+
+export const FileList = z.object({
+    files: z.array(File),
+    limit: z.number(),
+    offset: z.number(),
+    hasMore: z.boolean(),
+})
+
+export const SearchResults = z.object({
+    query: z.string(),
+    results: z.array(File),
+})
+
+export const Stats = z.looseObject({
+    totalActiveStreams: z.number(),
+    activeTokens: z.number(),
+    activeUsers: z.number(),
+    limits: z.object({
+        MAX_CONCURRENT_STREAMS: z.number(),
+        MAX_TOTAL_STREAMS: z.number(),
+        MAX_USERS: z.number(),
+    }),
+    streams: z.array(z.looseObject({
+        id: z.string(),
+        token: z.string(),
+        clientIP: z.string(),
+        fileName: z.string(),
+        bytesStreamed: z.number(),
+        bytesPerSecond: z.number(),
+    })),
+}).describe('Live stream stats: counts, cache, bandwidth, admission queue, limits and active streams')
+
+export const ErrorBody = z.object({
+    error: z.object({
+        code: z.string(),
+        message: z.string(),
+        details: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+    }),
+})
+
+export type FileResource = z.infer<typeof File>
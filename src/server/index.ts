@@ -1,13 +1,42 @@
+import crypto from 'node:crypto'
 import http from 'node:http'
 import { Readable, Transform } from 'node:stream'
 import type { TelegramClient } from '@mtcute/node'
 
 import { env } from '../config/env.js'
-import { ALIGN_LARGE_FILE, ALIGN_SMALL_FILE, LARGE_FILE_THRESHOLD } from '../config/constants.js'
+import { MAX_SUBTITLE_SIZE } from '../config/constants.js'
 import { streamLogger } from '../utils/logger.js'
-import { getFileEntry } from './utils/file-store.js'
-import { getMimeType } from './utils/mime.js'
-import { checkRateLimit, incrementStreamCount, decrementStreamCount } from './middleware/rate-limit.js'
+import type { FileEntry } from '../types/index.js'
+import {
+    lookupFileEntry, touchFileEntry, getStoreStats, recordView, addBytesServed, getStreamUrl,
+} from './utils/file-store.js'
+import { getMimeType, getContentDisposition } from './utils/mime.js'
+import { parseRange, isRangeFresh, formatContentRange, createMultipartLayout, type ByteRange } from './utils/range.js'
+import { evaluatePreconditions } from './utils/conditional.js'
+import { verifySignature } from './utils/signing.js'
+import { toWebVTT } from './utils/subtitles.js'
+import { isFileReferenceError, refreshSubtitleReference } from './utils/file-refresh.js'
+import { renderWatchPage } from './views/watch.js'
+import { renderM3U8, renderXSPF } from './views/playlist.js'
+import { createMediaSource, FileGoneError, type MediaSourceInfo } from './sources/index.js'
+import {
+    admitStream,
+    decrementStreamCount,
+    getStats,
+    getLimits,
+    trackStream,
+    untrackStream,
+} from './middleware/rate-limit.js'
+import { Gauge, renderMetrics } from './utils/metrics.js'
+import { bytesStreamed as bytesStreamedMetric, timeToFirstByte, stallKills } from './utils/stream-metrics.js'
+import { getPartSchedulerStats } from './utils/part-scheduler.js'
+import { recordUsage, checkQuota } from './utils/usage.js'
+import { getClientIP, getPublicBaseUrl } from './utils/proxy.js'
+import { beginRequest, type RequestContext, type EndReason } from './utils/access-log.js'
+import { createStreamShaper } from './utils/bandwidth.js'
+import { getCollection, getCollectionItems } from './utils/collections.js'
+import { handleApiRequest } from './api/index.js'
+import { handleWebDavRequest } from './webdav/index.js'
 
 /**
  * Send error message to browser (plain text)
@@ -18,217 +47,486 @@ function sendErrorMessage(res: http.ServerResponse, statusCode: number, message:
 }
 
 /**
- * Get client IP from request
+ * Point-in-time gauges, read on each scrape
  */
-function getClientIP(req: http.IncomingMessage): string {
-    return (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() 
-        || req.socket.remoteAddress 
-        || 'unknown'
+new Gauge('tgflix_active_streams', 'Active streams', () => getStats().totalActiveStreams)
+new Gauge('tgflix_active_tokens', 'Tokens with at least one active stream', () => getStats().activeTokens)
+new Gauge('tgflix_active_users', 'Client IPs with at least one active stream', () => getStats().activeUsers)
+new Gauge('tgflix_admission_queue_depth', 'Requests waiting for a stream slot', () => getStats().admission.queued)
+new Gauge('tgflix_stream_limit', 'Configured stream limits, by dimension', () => {
+    const limits = getLimits()
+    return [
+        [{ dimension: 'per_token' }, limits.MAX_CONCURRENT_STREAMS],
+        [{ dimension: 'total' }, limits.MAX_TOTAL_STREAMS],
+        [{ dimension: 'users' }, limits.MAX_USERS],
+    ]
+})
+new Gauge('tgflix_file_store_entries', 'Registered links in the file store', () => getStoreStats().count)
+new Gauge('tgflix_file_store_max_entries', 'MAX_FILE_ENTRIES', () => env.MAX_FILE_ENTRIES)
+new Gauge('tgflix_chunk_cache_lookups_total', 'Chunk cache lookups, by result', () => {
+    const cache = getStats().cache
+    return [[{ result: 'hit' }, cache.hits], [{ result: 'miss' }, cache.misses]]
+}, 'counter')
+new Gauge('tgflix_parts_total', 'Telegram parts fetched vs shared between streams', () => {
+    const parts = getPartSchedulerStats()
+    return [[{ kind: 'fetched' }, parts.partsFetched], [{ kind: 'shared' }, parts.partsShared]]
+}, 'counter')
+new Gauge('tgflix_bandwidth_bytes_per_second', 'Current outgoing bandwidth', () => getStats().bandwidth.globalBytesPerSecond)
+new Gauge('tgflix_process_memory_bytes', 'Process memory, by type', () => {
+    const mem = process.memoryUsage()
+    return [[{ type: 'rss' }, mem.rss], [{ type: 'heap_used' }, mem.heapUsed], [{ type: 'heap_total' }, mem.heapTotal]]
+})
+
+/**
+ * Check a bearer token in constant time
+ */
+function hasBearerToken(req: http.IncomingMessage, expected: string): boolean {
+    const header = req.headers.authorization || ''
+    const given = Buffer.from(header.replace(/^Bearer\s+/i, ''))
+    const wanted = Buffer.from(expected)
+    return header.toLowerCase().startsWith('bearer ')
+        && given.length === wanted.length
+        && crypto.timingSafeEqual(given, wanted)
 }
 
 /**
- * Handle streaming/download request using downloadAsIterable API
+ * Verify a link's signature, sending the error response if it can't be used
  */
-async function handleStreamRequest(
-    req: http.IncomingMessage, 
+function checkSignature(res: http.ServerResponse, token: string, params: URLSearchParams, clientIP: string): boolean {
+    const signature = verifySignature(token, params, clientIP)
+    if (!signature.valid && (signature.reason !== 'missing' || env.REQUIRE_SIGNED_URLS)) {
+        if (signature.reason === 'expired') {
+            sendErrorMessage(res, 410, 'Link has expired')
+        } else {
+            sendErrorMessage(res, 403, 'Invalid link signature')
+        }
+        return false
+    }
+    return true
+}
+
+/**
+ * Verify a link's signature and look up its entry
+ * Sends the error response and returns null if the link can't be used
+ * Requests already authenticated by credentials (WebDAV) skip the signature check.
+ */
+function resolveEntry(
+    res: http.ServerResponse,
+    token: string,
+    params: URLSearchParams,
+    clientIP: string,
+    authenticated = false
+): FileEntry | null {
+    // Verify the link signature before touching the store, so tokens can't be probed
+    if (!authenticated && !checkSignature(res, token, params, clientIP)) return null
+
+    const lookup = lookupFileEntry(token)
+
+    if (lookup.status === 'not_found') {
+        sendErrorMessage(res, 404, 'File not found')
+        return null
+    }
+
+    if (lookup.status !== 'active') {
+        const messages = {
+            revoked: 'Link has been revoked',
+            expired: 'Link has expired',
+            dead: 'File is no longer available on Telegram',
+        }
+        sendErrorMessage(res, 410, messages[lookup.status])
+        return null
+    }
+
+    touchFileEntry(token)
+    return lookup.entry
+}
+
+/**
+ * Handle /watch/:token - browser player page
+ */
+function handleWatchRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    token: string,
+    params: URLSearchParams
+): void {
+    const fileEntry = resolveEntry(res, token, params, getClientIP(req))
+    if (!fileEntry) return
+
+    // Reuse the page's signature for the stream, download and subtitle URLs
+    const query = params.toString()
+    const html = renderWatchPage(fileEntry, {
+        stream: `/stream/${token}?${query}`,
+        download: `/download/${token}?${query}`,
+        subtitles: (fileEntry.subtitles || []).map((_, i) => `/subtitles/${token}/${i}.vtt?${query}`),
+    })
+
+    res.writeHead(200, {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'Referrer-Policy': 'no-referrer',
+    })
+    res.end(html)
+}
+
+/**
+ * Handle /subtitles/:token/:index.vtt - subtitle track converted to WebVTT
+ */
+async function handleSubtitleRequest(
+    req: http.IncomingMessage,
     res: http.ServerResponse,
     tg: TelegramClient,
     token: string,
-    isDownload: boolean
+    trackParam: string,
+    params: URLSearchParams
 ): Promise<void> {
-    const fileEntry = getFileEntry(token)
+    const fileEntry = resolveEntry(res, token, params, getClientIP(req))
+    if (!fileEntry) return
 
-    if (!fileEntry) {
-        res.writeHead(404, { 'Content-Type': 'text/plain' })
-        res.end('File not found or link expired')
+    const index = parseInt(trackParam, 10)
+    const track = fileEntry.subtitles?.[index]
+    if (!track) {
+        sendErrorMessage(res, 404, 'Subtitle not found')
         return
     }
-
-    const clientIP = getClientIP(req)
-
-    // Check rate limits
-    const rateLimit = checkRateLimit(token, clientIP)
-    if (!rateLimit.allowed) {
-        sendErrorMessage(res, 503, rateLimit.reason!)
+    if ((track.fileSize ?? 0) > MAX_SUBTITLE_SIZE) {
+        sendErrorMessage(res, 413, 'Subtitle file is too large')
         return
     }
 
-    // Increment active stream counts
-    incrementStreamCount(token, clientIP)
+    // One byte past the cap tells an oversized file (tracks attached before sizes were stored) apart
+    const download = (fileId: string) => tg.downloadAsBuffer(fileId, { limit: MAX_SUBTITLE_SIZE + 1 })
 
     try {
-        const { fileId, fileName, fileSize, mimeType } = fileEntry
-        const contentType = mimeType || getMimeType(fileName)
-
-        // Parse Range header
-        const rangeHeader = req.headers.range
-        let start = 0
-        let end = fileSize - 1
-
-        if (rangeHeader) {
-            const match = rangeHeader.match(/bytes=(\d*)-(\d*)/)
-            if (match) {
-                start = match[1] ? parseInt(match[1], 10) : 0
-                end = match[2] ? parseInt(match[2], 10) : fileSize - 1
+        let data: Uint8Array
+        try {
+            data = await download(track.fileId)
+        } catch (error) {
+            if (!isFileReferenceError(error)) throw error
+            const freshId = await refreshSubtitleReference(tg, token, index)
+            if (!freshId) {
+                sendErrorMessage(res, 410, 'Subtitle is no longer available on Telegram')
+                return
             }
+            data = await download(freshId)
+        }
+        if (data.length > MAX_SUBTITLE_SIZE) {
+            sendErrorMessage(res, 413, 'Subtitle file is too large')
+            return
         }
 
-        const chunkSize = end - start + 1
-        streamLogger.http(`${fileName}`, { bytes: `${start}-${end}` })
-
-        // Headers
-        const disposition = isDownload ? 'attachment' : 'inline'
-        const headers: Record<string, string | number> = {
-            'Content-Type': contentType,
-            'Accept-Ranges': 'bytes',
-            'Content-Length': chunkSize,
-            'Content-Disposition': `${disposition}; filename="${encodeURIComponent(fileName)}"`,
+        res.writeHead(200, {
+            'Content-Type': 'text/vtt; charset=utf-8',
             'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Headers': 'Range',
-            'Access-Control-Expose-Headers': 'Content-Range, Content-Length, Accept-Ranges',
-        }
+        })
+        res.end(toWebVTT(Buffer.from(data).toString('utf8'), track.fileName))
+    } catch (error) {
+        streamLogger.warn('Subtitle download failed', { token: token.slice(0, 8), error: (error as Error).message })
+        sendErrorMessage(res, 502, 'Failed to load subtitle')
+    }
+}
 
-        if (rangeHeader) {
-            headers['Content-Range'] = `bytes ${start}-${end}/${fileSize}`
-            res.writeHead(206, headers)
-        } else {
-            res.writeHead(200, headers)
+/**
+ * Handle /playlist/:token.m3u8 and /playlist/:token.xspf - a collection as a playlist
+ * Item links inherit the playlist link's expiry and IP binding
+ */
+function handlePlaylistRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    fileParam: string,
+    params: URLSearchParams
+): void {
+    const match = fileParam.match(/^([\w-]+)\.(m3u8|xspf)$/)
+    if (!match) {
+        sendErrorMessage(res, 404, 'Not found')
+        return
+    }
+    const [, token, format] = match
+
+    if (!checkSignature(res, token, params, getClientIP(req))) return
+
+    const collection = getCollection(token)
+    if (!collection) {
+        sendErrorMessage(res, 404, 'Playlist not found')
+        return
+    }
+
+    const exp = params.get('exp')
+    const linkOptions = {
+        baseUrl: getPublicBaseUrl(req),
+        expiresAt: exp ? Number(exp) * 1000 : undefined,
+        ip: params.get('ip') || undefined,
+    }
+    const items = getCollectionItems(collection).map(({ token, entry }) => ({
+        title: entry.fileName,
+        url: getStreamUrl(token, linkOptions),
+        duration: entry.duration,
+    }))
+
+    const body = format === 'm3u8' ? renderM3U8(collection.name, items) : renderXSPF(collection.name, items)
+    res.writeHead(200, {
+        'Content-Type': format === 'm3u8' ? 'audio/x-mpegurl; charset=utf-8' : 'application/xspf+xml; charset=utf-8',
+        'Content-Disposition': getContentDisposition('inline', `${collection.name}.${format}`),
+        'Cache-Control': 'no-store',
+    })
+    res.end(body)
+}
+
+/**
+ * Handle streaming/download request through the entry's media source
+ */
+async function handleStreamRequest(
+    req: http.IncomingMessage, 
+    res: http.ServerResponse,
+    tg: TelegramClient,
+    token: string,
+    isDownload: boolean,
+    params: URLSearchParams,
+    context: RequestContext,
+    authenticated = false
+): Promise<void> {
+    const clientIP = getClientIP(req)
+
+    const fileEntry = resolveEntry(res, token, params, clientIP, authenticated)
+    if (!fileEntry) return
+
+    const { fileName, mimeType } = fileEntry
+    const contentType = mimeType || getMimeType(fileName)
+
+    // Backend for this entry (Telegram or local directory)
+    const source = createMediaSource(tg, token, fileEntry)
+    let info: MediaSourceInfo
+    try {
+        info = await source.info()
+    } catch (error) {
+        if (error instanceof FileGoneError) {
+            sendErrorMessage(res, 410, 'File is no longer available')
+            return
         }
+        // e.g. a failed stat or Telegram RPC; answer instead of leaving the request hanging
+        streamLogger.error('Failed to read file info', { requestId: context.id, token: token.slice(0, 8), error })
+        context.endReason = 'error'
+        if (!res.headersSent) sendErrorMessage(res, 502, 'Failed to read file')
+        else res.end()
+        return
+    }
+
+    // Validators and headers shared by every response for this file
+    const { size: fileSize, etag, lastModified } = info
+    const baseHeaders: Record<string, string | number> = {
+        'Accept-Ranges': 'bytes',
+        'ETag': etag,
+        'Last-Modified': lastModified,
+        'Content-Disposition': getContentDisposition(isDownload ? 'attachment' : 'inline', fileName),
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Range, If-Range, If-None-Match, If-Modified-Since',
+        'Access-Control-Expose-Headers': 'Content-Range, Content-Length, Accept-Ranges, ETag, Content-Disposition',
+    }
+
+    // Conditional GET - answered before counting against stream limits
+    const precondition = evaluatePreconditions(req, etag, lastModified)
+    if (precondition === 'not_modified') {
+        res.writeHead(304, baseHeaders)
+        res.end()
+        return
+    }
+    if (precondition === 'failed') {
+        res.writeHead(412, baseHeaders)
+        res.end()
+        return
+    }
+
+    // Parse Range header (ignored when If-Range no longer matches)
+    let range = parseRange(req.headers.range, fileSize)
+    if (range.type === 'ranges' && !isRangeFresh(req.headers['if-range'] as string | undefined, etag, lastModified)) {
+        range = { type: 'none' }
+    }
+
+    if (range.type === 'unsatisfiable') {
+        res.writeHead(416, { ...baseHeaders, 'Content-Range': `bytes */${fileSize}`, 'Content-Type': 'text/plain' })
+        res.end('Requested range not satisfiable')
+        return
+    }
+
+    const ranges = range.type === 'ranges' ? range.ranges : [{ start: 0, end: fileSize - 1 }]
+    const multipart = ranges.length > 1
+        ? createMultipartLayout(ranges, contentType, fileSize, crypto.randomBytes(12).toString('hex'))
+        : null
+    const contentLength = multipart
+        ? multipart.contentLength
+        : ranges[0].end - ranges[0].start + 1
+
+    // Headers
+    const headers: Record<string, string | number> = {
+        ...baseHeaders,
+        'Content-Type': multipart ? `multipart/byteranges; boundary=${multipart.boundary}` : contentType,
+        'Content-Length': contentLength,
+    }
+    if (range.type === 'ranges' && !multipart) {
+        headers['Content-Range'] = formatContentRange(ranges[0], fileSize)
+    }
+    const statusCode = range.type === 'ranges' ? 206 : 200
+
+    // HEAD sends no body, so it is answered without taking a stream slot
+    if (req.method === 'HEAD') {
+        res.writeHead(statusCode, headers)
+        res.end()
+        return
+    }
+
+    // Wait for a stream slot; counts the stream once admitted
+    const disconnected = new AbortController()
+    const onDisconnect = () => disconnected.abort()
+    res.once('close', onDisconnect)
+    const admission = await admitStream(token, clientIP, fileEntry.ownerId, disconnected.signal)
+    res.off('close', onDisconnect)
+    if (!admission.allowed) {
+        if (disconnected.signal.aborted) return
+        res.writeHead(admission.status ?? 503, {
+            'Content-Type': 'text/plain',
+            ...(admission.retryAfter !== undefined && { 'Retry-After': String(admission.retryAfter) }),
+        })
+        res.end(admission.reason)
+        return
+    }
+
+    try {
+        streamLogger.http(`${fileName}`, { requestId: context.id, bytes: ranges.map(r => `${r.start}-${r.end}`).join(',') })
+
+        res.writeHead(statusCode, headers)
 
         // Flush headers immediately to prevent buffering delays
         res.flushHeaders()
 
-        // Handle HEAD request - return headers only, no body
-        if (req.method === 'HEAD') {
-            decrementStreamCount(token, clientIP)
-            res.end()
-            return
+        // A request from byte 0 is a player starting playback; later ranges are seeks
+        if (ranges[0].start === 0) {
+            recordView(token)
         }
 
-        // Alignment for Telegram API - offset must be aligned
-        const isLargeFile = fileSize > LARGE_FILE_THRESHOLD
-        const ALIGN = isLargeFile ? ALIGN_LARGE_FILE : ALIGN_SMALL_FILE
-        const alignedStart = Math.floor(start / ALIGN) * ALIGN
-        const skipBytes = start - alignedStart
-
         // Abort controller for cleanup
         const abortController = new AbortController()
+        // Per-stream, per-IP and global bandwidth limits
+        const shaper = createStreamShaper(clientIP)
         let cleanedUp = false
         let bytesStreamed = 0
-        let skipped = 0
         let written = 0
 
         // Stall timeout - kill connection if client stops reading but doesn't disconnect
         let stallTimeout: ReturnType<typeof setTimeout> | null = null
         let lastProgress = Date.now()
 
+        // Listed by /streams; a kill (admin or preemption) tears the connection down
+        const tracked = trackStream(token, clientIP, fileName, (reason) => {
+            cleanup(reason, 'killed')
+            res.destroy()
+        })
+
         // Cleanup function
-        const cleanup = (reason: string) => {
+        const cleanup = (reason: string, endReason: EndReason) => {
             if (cleanedUp) return
             cleanedUp = true
+            context.endReason = endReason
             if (stallTimeout) clearInterval(stallTimeout)
+            untrackStream(tracked.id)
+            shaper.release()
             decrementStreamCount(token, clientIP)
+            addBytesServed(token, bytesStreamed)
             abortController.abort()
             const mem = process.memoryUsage()
-            streamLogger.debug(`Cleanup: ${reason}`, { 
+            streamLogger.debug(`Cleanup: ${reason}`, {
+                requestId: context.id,
                 bytesStreamed,
                 heapUsedMB: Math.round(mem.heapUsed / 1024 / 1024),
                 rssMB: Math.round(mem.rss / 1024 / 1024)
             })
         }
 
-        req.on('close', () => cleanup('client disconnect'))
+        req.on('close', () => cleanup('client disconnect', 'client_disconnect'))
         res.on('error', (err) => {
             streamLogger.warn('Response error', { error: err.message })
-            cleanup('response error')
+            cleanup('response error', 'error')
         })
 
-        // Create readable stream from downloadAsIterable
-        // Do NOT pass fileSize - mtcute's determinePartSize() throws "File is too large" for files >2GB
-        // Do NOT pass limit - mtcute requires limit to equal fileSize or be a factor of 1MB
-        // Use partSize: 512 (512KB) for optimal video streaming throughput
-        // We let it stream from offset and abort when we have enough bytes
-        // highWaterMark: 1 means we only buffer one chunk at a time for backpressure
-        const readable = Readable.from(
-            tg.downloadAsIterable(fileId, {
-                offset: alignedStart,
-                partSize: 1024,  // 1MB chunks for faster streaming
-                abortSignal: abortController.signal,
-                // Throttle: wait for HTTP response to drain before downloading more
-                // Called multiple times simultaneously since downloads are parallelized
-                throttle: async () => {
-                    if (res.writableNeedDrain) {
-                        await new Promise<void>(resolve => res.once('drain', resolve))
-                    }
-                }
-            }),
-            { highWaterMark: 1, objectMode: true }
-        )
+        // Pulling through the pipe below means we only read more once this response has drained
+        const openRange = (r: ByteRange) => source.open(r, abortController.signal)
 
-        // Transform stream for slicing (handles alignment skip + byte limit)
-        const sliceTransform = new Transform({
-            transform(chunk: Buffer, encoding, callback) {
-                bytesStreamed += chunk.length
-                lastProgress = Date.now()
-                
-                // Skip alignment bytes at the start
-                if (skipped < skipBytes) {
-                    const toSkip = Math.min(skipBytes - skipped, chunk.length)
-                    skipped += toSkip
-                    chunk = chunk.subarray(toSkip) as Buffer
-                    if (chunk.length === 0) {
-                        callback()
-                        return
-                    }
-                }
-                
-                // Limit to requested size
-                const remaining = chunkSize - written
-                if (remaining <= 0) {
-                    this.push(null) // End the stream
-                    callback()
-                    return
+        // Body: a single range as-is, or each range framed as a multipart/byteranges part
+        async function* body(): AsyncGenerator<Buffer> {
+            if (!multipart) {
+                yield* openRange(ranges[0])
+                return
+            }
+            for (let i = 0; i < ranges.length; i++) {
+                yield Buffer.from(multipart.partHeaders[i])
+                yield* openRange(ranges[i])
+            }
+            yield Buffer.from(multipart.trailer)
+        }
+
+        // highWaterMark: 1 means we only buffer one chunk at a time for backpressure
+        const readable = Readable.from(body(), { highWaterMark: 1, objectMode: true })
+
+        // Transform stream for progress tracking and bandwidth shaping
+        const progressTransform = new Transform({
+            async transform(chunk: Buffer, encoding, callback) {
+                if (written === 0) {
+                    context.ttfbMs = Date.now() - context.startedAt
+                    timeToFirstByte.observe(context.ttfbMs / 1000)
                 }
-                
-                if (chunk.length > remaining) {
-                    chunk = chunk.subarray(0, remaining) as Buffer
+                await shaper.throttle(chunk.length, abortController.signal)
+                bytesStreamedMetric.inc({}, chunk.length)
+                // Usage is charged as bytes go out, so a running stream stops once the quota is used up
+                let quotaExceeded = false
+                if (fileEntry.ownerId !== undefined) {
+                    recordUsage(fileEntry.ownerId, chunk.length)
+                    quotaExceeded = !checkQuota(fileEntry.ownerId).allowed
                 }
-                
+                bytesStreamed += chunk.length
+                tracked.bytesStreamed = bytesStreamed
+                tracked.bytesPerSecond = shaper.rate()
                 written += chunk.length
-                this.push(chunk)
-                
-                if (written >= chunkSize) {
-                    this.push(null) // End the stream
-                    cleanup('stream complete')  // Abort download early - we have enough bytes
+                lastProgress = Date.now()
+                tracked.lastActivityAt = lastProgress
+                callback(null, chunk)
+
+                if (quotaExceeded && written < contentLength) {
+                    streamLogger.info('Quota used up mid-stream', { requestId: context.id, token: token.slice(0, 8), bytesStreamed })
+                    cleanup('quota exceeded', 'killed')
+                    res.destroy()
                 }
-                callback()
             }
         })
 
         // Set stall check interval - 2 minutes of no progress triggers cleanup
         stallTimeout = setInterval(() => {
-            if (!cleanedUp && Date.now() - lastProgress > 120000 && written < chunkSize) {
-                cleanup('stall timeout')
+            if (!cleanedUp && Date.now() - lastProgress > 120000 && written < contentLength) {
+                stallKills.inc()
+                cleanup('stall timeout', 'stall')
                 res.destroy()
             }
         }, 30000)  // Check every 30 seconds
 
-        // Pipe: Readable (chunks) -> Transform (slice) -> HTTP Response
+        // Pipe: Readable (chunks) -> Transform (progress) -> HTTP Response
         readable
-            .pipe(sliceTransform)
+            .pipe(progressTransform)
             .pipe(res)
 
         // Handle stream events
-        sliceTransform.on('end', () => cleanup('stream complete'))
+        progressTransform.on('end', () => cleanup('stream complete', 'complete'))
         readable.on('error', (err) => {
-            if (!abortController.signal.aborted) {
+            if (err instanceof FileGoneError) {
+                streamLogger.warn('Source file gone mid-stream', { token: token.slice(0, 8), bytesStreamed })
+            } else if (!abortController.signal.aborted) {
                 streamLogger.warn('Stream error', { error: err.message, bytesStreamed })
             }
-            cleanup('stream error')
+            cleanup('stream error', 'error')
+            // pipe() doesn't forward errors; cut the response short so the player sees a truncated body
+            res.destroy(err)
         })
-        sliceTransform.on('error', (err) => {
+        progressTransform.on('error', (err) => {
             streamLogger.warn('Transform error', { error: err.message, bytesStreamed })
-            cleanup('transform error')
+            cleanup('transform error', 'error')
+            res.destroy(err)
         })
 
     } catch (error) {
@@ -242,19 +540,98 @@ async function handleStreamRequest(
     }
 }
 
+/**
+ * Set once shutdown begins
+ */
+let draining = false
+
+/**
+ * Stop accepting connections and wait for active streams to finish
+ * Streams still running after timeoutMs are cut off
+ */
+export async function drainStreamServer(server: http.Server, timeoutMs: number): Promise<void> {
+    draining = true
+    server.close()
+    server.closeIdleConnections()
+
+    const deadline = Date.now() + timeoutMs
+    while (getStats().totalActiveStreams > 0 && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 250))
+    }
+
+    const remaining = getStats().totalActiveStreams
+    if (remaining > 0) {
+        streamLogger.warn(`Drain timeout, closing ${remaining} active streams`)
+    } else {
+        streamLogger.info('All streams drained')
+    }
+    server.closeAllConnections()
+}
+
 /**
  * Start the HTTP streaming server
  */
 export function startStreamServer(tg: TelegramClient): http.Server {
+    // Started after tg.start(), so the client is connected at this point
+    let telegramState = 'connected'
+    tg.onConnectionState.add((state) => {
+        telegramState = state
+    })
     
     const server = http.createServer(async (req, res) => {
+        const context = beginRequest(req, res)
+
+        // Refuse new work while draining; Connection: close frees keep-alive sockets
+        if (draining) {
+            res.writeHead(503, { 'Content-Type': 'text/plain', 'Retry-After': '10', 'Connection': 'close' })
+            res.end('Server is restarting')
+            return
+        }
+
         const url = new URL(req.url || '/', `http://${req.headers.host}`)
         const pathParts = url.pathname.split('/').filter(Boolean)
 
-        // Health check endpoint
+        // Readiness check - fails while the Telegram connection is down
         if (url.pathname === '/health') {
-            res.writeHead(200, { 'Content-Type': 'text/plain' })
-            res.end('OK')
+            context.route = '/health'
+            const ready = telegramState === 'connected' || telegramState === 'updating'
+            res.writeHead(ready ? 200 : 503, { 'Content-Type': 'text/plain' })
+            res.end(ready ? 'OK' : `Telegram ${telegramState}`)
+            return
+        }
+
+        // Prometheus metrics, optionally behind a bearer token
+        if (url.pathname === '/metrics') {
+            context.route = '/metrics'
+            if (env.METRICS_TOKEN && !hasBearerToken(req, env.METRICS_TOKEN)) {
+                res.writeHead(401, { 'Content-Type': 'text/plain', 'WWW-Authenticate': 'Bearer' })
+                res.end('Unauthorized')
+                return
+            }
+            res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' })
+            res.end(renderMetrics())
+            return
+        }
+
+        // Collection playlists: /playlist/:token.m3u8 or .xspf
+        if (pathParts[0] === 'playlist' && pathParts[1]) {
+            context.route = '/playlist/:token'
+            context.token = pathParts[1].replace(/\.\w+$/, '')
+            handlePlaylistRequest(req, res, pathParts[1], url.searchParams)
+            return
+        }
+
+        // JSON API: /api/v1/*
+        if (pathParts[0] === 'api') {
+            await handleApiRequest(req, res, tg, url, context)
+            return
+        }
+
+        // Read-only WebDAV share: /dav/*, file bodies served like /stream
+        if (pathParts[0] === 'dav') {
+            await handleWebDavRequest(req, res, url, context, token =>
+                handleStreamRequest(req, res, tg, token, false, new URLSearchParams(), context, true)
+            )
             return
         }
 
@@ -263,7 +640,25 @@ export function startStreamServer(tg: TelegramClient): http.Server {
         if ((pathParts[0] === 'stream' || pathParts[0] === 'download') && pathParts[1]) {
             const isDownload = pathParts[0] === 'download'
             const token = pathParts[1]
-            await handleStreamRequest(req, res, tg, token, isDownload)
+            context.route = `/${pathParts[0]}/:token`
+            context.token = token
+            await handleStreamRequest(req, res, tg, token, isDownload, url.searchParams, context)
+            return
+        }
+
+        // Browser player: /watch/:token
+        if (pathParts[0] === 'watch' && pathParts[1]) {
+            context.route = '/watch/:token'
+            context.token = pathParts[1]
+            handleWatchRequest(req, res, pathParts[1], url.searchParams)
+            return
+        }
+
+        // Subtitle tracks: /subtitles/:token/:index.vtt
+        if (pathParts[0] === 'subtitles' && pathParts[1] && pathParts[2]) {
+            context.route = '/subtitles/:token/:track'
+            context.token = pathParts[1]
+            await handleSubtitleRequest(req, res, tg, pathParts[1], pathParts[2], url.searchParams)
             return
         }
 
@@ -1,5 +1,46 @@
 import { env } from '../../config/env.js'
 import { streamLogger } from '../../utils/logger.js'
+import { getCacheStats } from '../utils/chunk-cache.js'
+import { getBandwidthStats } from '../utils/bandwidth.js'
+import { ADMISSION_RETRY_AFTER, ADMISSION_WAIT_SAMPLES, PREEMPT_IDLE_MS } from '../../config/constants.js'
+import { rateLimitRejections, admissionWait } from '../utils/stream-metrics.js'
+import { checkQuota } from '../utils/usage.js'
+
+/**
+ * Names of the stream limits that can be changed at runtime
+ */
+export const STREAM_LIMIT_NAMES = ['MAX_CONCURRENT_STREAMS', 'MAX_TOTAL_STREAMS', 'MAX_USERS'] as const
+
+export type StreamLimitName = typeof STREAM_LIMIT_NAMES[number]
+
+/**
+ * Current stream limits, seeded from env and adjustable with /limits
+ */
+const limits: Record<StreamLimitName, number> = {
+    MAX_CONCURRENT_STREAMS: env.MAX_CONCURRENT_STREAMS,
+    MAX_TOTAL_STREAMS: env.MAX_TOTAL_STREAMS,
+    MAX_USERS: env.MAX_USERS,
+}
+
+/**
+ * A stream in progress, as listed by /streams
+ */
+export interface ActiveStream {
+    id: string
+    token: string
+    clientIP: string
+    fileName: string
+    startedAt: number
+    bytesStreamed: number
+    bytesPerSecond: number
+    lastActivityAt: number
+}
+
+/**
+ * Active streams by ID, with a callback that tears the connection down
+ */
+const activeStreams = new Map<string, { stream: ActiveStream; kill: (reason: string) => void }>()
+let nextStreamId = 1
 
 /**
  * Track active streams per token for connection limiting
@@ -20,48 +61,245 @@ const streamsPerIP = new Map<string, number>()
 /**
  * Result of rate limit check
  */
-interface RateLimitResult {
+interface LimitCheck {
+    allowed: boolean
+    limit?: 'per_token' | 'max_users' | 'global'
+    reason?: string
+}
+
+/**
+ * Result of admitting a stream
+ */
+export interface AdmissionResult {
     allowed: boolean
     reason?: string
+    status?: number      // HTTP status to reply with when not allowed
+    retryAfter?: number  // Seconds
 }
 
 /**
- * Check if a new stream connection is allowed
+ * A request waiting for a stream slot
+ */
+interface Waiter {
+    token: string
+    clientIP: string
+    queueKey: string
+    enqueuedAt: number
+    admit: () => void
+}
+
+/**
+ * Requests waiting for a slot, oldest first
+ */
+const queue: Waiter[] = []
+let queueScheduled = false
+
+/**
+ * Admission stats
  */
-export function checkRateLimit(token: string, clientIP: string): RateLimitResult {
+let admittedAfterWait = 0
+let queueTimeouts = 0
+let queueFullRejections = 0
+const recentWaits: number[] = []  // Last ADMISSION_WAIT_SAMPLES waits in ms, for stats
+
+/**
+ * Check whether a new stream fits within the concurrent stream limits
+ */
+function checkLimits(token: string, clientIP: string): LimitCheck {
     // Check concurrent stream limit per token
     const currentStreams = activeStreamsPerToken.get(token) || 0
-    if (currentStreams >= env.MAX_CONCURRENT_STREAMS) {
-        streamLogger.warn(`Rejected (per-token): ${currentStreams}/${env.MAX_CONCURRENT_STREAMS}`, { token: token.slice(0, 8) })
+    if (currentStreams >= limits.MAX_CONCURRENT_STREAMS) {
         return {
             allowed: false,
-            reason: `Per-file limit reached: ${currentStreams}/${env.MAX_CONCURRENT_STREAMS} connections`
+            limit: 'per_token',
+            reason: `Per-file limit reached: ${currentStreams}/${limits.MAX_CONCURRENT_STREAMS} connections`
         }
     }
 
     // Check max users limit (by unique IP)
     const ipStreams = streamsPerIP.get(clientIP) || 0
     const activeUsers = streamsPerIP.size
-    if (ipStreams === 0 && activeUsers >= env.MAX_USERS) {
-        streamLogger.warn(`Rejected (max users): ${activeUsers}/${env.MAX_USERS} users`, { ip: clientIP.slice(-8) })
+    if (ipStreams === 0 && activeUsers >= limits.MAX_USERS) {
         return {
             allowed: false,
-            reason: `Max users reached: ${activeUsers}/${env.MAX_USERS}`
+            limit: 'max_users',
+            reason: `Max users reached: ${activeUsers}/${limits.MAX_USERS}`
         }
     }
 
     // Check global limit
-    if (totalActiveStreams >= env.MAX_TOTAL_STREAMS) {
-        streamLogger.warn(`Rejected (global): ${totalActiveStreams}/${env.MAX_TOTAL_STREAMS} total streams`)
+    if (totalActiveStreams >= limits.MAX_TOTAL_STREAMS) {
         return {
             allowed: false,
-            reason: `Global limit reached: ${totalActiveStreams}/${env.MAX_TOTAL_STREAMS} streams`
+            limit: 'global',
+            reason: `Global limit reached: ${totalActiveStreams}/${limits.MAX_TOTAL_STREAMS} streams`
         }
     }
 
     return { allowed: true }
 }
 
+/**
+ * Kill the least recently active stream this client has open on the token, if it has gone idle
+ * VLC opens a new connection on seek without closing the old one straight away,
+ * so a client at its per-token limit replaces its own stale connection. Streams that sent
+ * data within PREEMPT_IDLE_MS are still playing and are left alone.
+ */
+function preemptStaleStream(token: string, clientIP: string): boolean {
+    const idleSince = Date.now() - PREEMPT_IDLE_MS
+    let stale: ActiveStream | undefined
+    for (const { stream } of activeStreams.values()) {
+        if (stream.token !== token || stream.clientIP !== clientIP || stream.lastActivityAt > idleSince) continue
+        if (!stale || stream.lastActivityAt < stale.lastActivityAt) stale = stream
+    }
+    return stale ? killStream(stale.id, 'preempted by new connection') : false
+}
+
+/**
+ * Queue position is per user: the link owner, or the client IP for links without one
+ */
+function getQueueKey(ownerId: number | undefined, clientIP: string): string {
+    return ownerId !== undefined ? `user:${ownerId}` : `ip:${clientIP}`
+}
+
+/**
+ * Admit waiting requests that fit now, in order
+ * Only the oldest waiter of each user is considered, so each user's requests stay FIFO
+ */
+function processQueue(): void {
+    const blocked = new Set<string>()
+    for (let i = 0; i < queue.length;) {
+        const waiter = queue[i]
+        if (!blocked.has(waiter.queueKey) && checkLimits(waiter.token, waiter.clientIP).allowed) {
+            queue.splice(i, 1)
+            waiter.admit()
+            continue
+        }
+        blocked.add(waiter.queueKey)
+        i++
+    }
+}
+
+/**
+ * Run processQueue once the current call stack is done
+ * Deferred so a caller that just freed a slot (preemption) can claim it first
+ */
+function scheduleQueue(): void {
+    if (queueScheduled || queue.length === 0) return
+    queueScheduled = true
+    queueMicrotask(() => {
+        queueScheduled = false
+        processQueue()
+    })
+}
+
+function recordWait(ms: number): void {
+    recentWaits.push(ms)
+    if (recentWaits.length > ADMISSION_WAIT_SAMPLES) recentWaits.shift()
+    admissionWait.observe(ms / 1000)
+}
+
+/**
+ * Log and count a refused stream
+ */
+function reject(result: AdmissionResult, reason: string, token: string): AdmissionResult {
+    rateLimitRejections.inc({ reason })
+    streamLogger.warn(`Rejected (${reason}): ${result.reason}`, { token: token.slice(0, 8) })
+    return result
+}
+
+/**
+ * Admit a new stream, waiting up to ADMISSION_TIMEOUT for a slot if the limits are reached
+ * On success the stream is already counted; call decrementStreamCount when it ends.
+ * ownerId is the user who registered the link, whose quota the stream counts against.
+ */
+export async function admitStream(
+    token: string,
+    clientIP: string,
+    ownerId: number | undefined,
+    signal: AbortSignal
+): Promise<AdmissionResult> {
+    // Out of quota - waiting won't help
+    if (ownerId !== undefined) {
+        const quota = checkQuota(ownerId)
+        if (!quota.allowed) {
+            return reject({ ...quota, status: 429 }, 'quota', token)
+        }
+    }
+
+    // Go straight in unless this user already has requests waiting
+    const queueKey = getQueueKey(ownerId, clientIP)
+    if (!queue.some(waiter => waiter.queueKey === queueKey)) {
+        let check = checkLimits(token, clientIP)
+        if (check.limit === 'per_token' && preemptStaleStream(token, clientIP)) {
+            check = checkLimits(token, clientIP)
+        }
+        if (check.allowed) {
+            incrementStreamCount(token, clientIP)
+            return { allowed: true }
+        }
+        if (env.ADMISSION_TIMEOUT <= 0) {
+            return reject({ ...check, status: 503, retryAfter: ADMISSION_RETRY_AFTER }, check.limit!, token)
+        }
+    }
+
+    if (queue.length >= env.ADMISSION_QUEUE_SIZE) {
+        queueFullRejections++
+        return reject({
+            allowed: false,
+            reason: `Server busy: ${queue.length} requests already waiting`,
+            status: 503,
+            retryAfter: ADMISSION_RETRY_AFTER,
+        }, 'queue_full', token)
+    }
+
+    return new Promise<AdmissionResult>((resolve) => {
+        const waiter: Waiter = {
+            token,
+            clientIP,
+            queueKey,
+            enqueuedAt: Date.now(),
+            admit: () => {
+                finish()
+                admittedAfterWait++
+                recordWait(Date.now() - waiter.enqueuedAt)
+                incrementStreamCount(token, clientIP)
+                resolve({ allowed: true })
+            },
+        }
+
+        const finish = () => {
+            clearTimeout(timer)
+            signal.removeEventListener('abort', onAbort)
+            const index = queue.indexOf(waiter)
+            if (index !== -1) queue.splice(index, 1)
+        }
+
+        const timer = setTimeout(() => {
+            finish()
+            queueTimeouts++
+            recordWait(Date.now() - waiter.enqueuedAt)
+            const check = checkLimits(token, clientIP)
+            resolve(reject({
+                allowed: false,
+                reason: check.reason ?? 'Timed out waiting for a stream slot',
+                status: 503,
+                retryAfter: ADMISSION_RETRY_AFTER,
+            }, check.limit ?? 'queue_timeout', token))
+        }, env.ADMISSION_TIMEOUT)
+
+        // Client gave up while waiting
+        const onAbort = () => {
+            finish()
+            resolve({ allowed: false, reason: 'Client disconnected' })
+        }
+        signal.addEventListener('abort', onAbort, { once: true })
+
+        queue.push(waiter)
+        streamLogger.info(`Queued`, { token: token.slice(0, 8), position: queue.length })
+    })
+}
+
 /**
  * Increment stream counters when a stream starts
  */
@@ -75,9 +313,9 @@ export function incrementStreamCount(token: string, clientIP: string): void {
     
     streamLogger.info(`Started`, { 
         token: token.slice(0, 8), 
-        perToken: `${currentStreams + 1}/${env.MAX_CONCURRENT_STREAMS}`, 
-        users: `${streamsPerIP.size}/${env.MAX_USERS}`, 
-        total: `${totalActiveStreams}/${env.MAX_TOTAL_STREAMS}` 
+        perToken: `${currentStreams + 1}/${limits.MAX_CONCURRENT_STREAMS}`, 
+        users: `${streamsPerIP.size}/${limits.MAX_USERS}`, 
+        total: `${totalActiveStreams}/${limits.MAX_TOTAL_STREAMS}` 
     })
 }
 
@@ -100,15 +338,101 @@ export function decrementStreamCount(token: string, clientIP: string): void {
     }
     
     totalActiveStreams = Math.max(0, totalActiveStreams - 1)
+    scheduleQueue()
     
     streamLogger.info(`Ended`, { 
         token: token.slice(0, 8), 
-        perToken: `${Math.max(0, count - 1)}/${env.MAX_CONCURRENT_STREAMS}`, 
-        users: `${streamsPerIP.size}/${env.MAX_USERS}`, 
-        total: `${totalActiveStreams}/${env.MAX_TOTAL_STREAMS}` 
+        perToken: `${Math.max(0, count - 1)}/${limits.MAX_CONCURRENT_STREAMS}`, 
+        users: `${streamsPerIP.size}/${limits.MAX_USERS}`, 
+        total: `${totalActiveStreams}/${limits.MAX_TOTAL_STREAMS}` 
     })
 }
 
+/**
+ * Register a started stream so it can be listed and killed
+ * The caller updates bytesStreamed, bytesPerSecond and lastActivityAt as data is sent and calls untrackStream when done
+ */
+export function trackStream(
+    token: string,
+    clientIP: string,
+    fileName: string,
+    kill: (reason: string) => void
+): ActiveStream {
+    const stream: ActiveStream = {
+        id: (nextStreamId++).toString(36),
+        token,
+        clientIP,
+        fileName,
+        startedAt: Date.now(),
+        bytesStreamed: 0,
+        bytesPerSecond: 0,
+        lastActivityAt: Date.now(),
+    }
+    activeStreams.set(stream.id, { stream, kill })
+    return stream
+}
+
+/**
+ * Remove a finished stream from the registry
+ */
+export function untrackStream(id: string): void {
+    activeStreams.delete(id)
+}
+
+/**
+ * List active streams, oldest first
+ */
+export function listActiveStreams(): ActiveStream[] {
+    return Array.from(activeStreams.values(), ({ stream }) => ({ ...stream }))
+}
+
+/**
+ * Kill an active stream by ID
+ * Returns false if it has already ended
+ */
+export function killStream(id: string, reason = 'killed by admin'): boolean {
+    const active = activeStreams.get(id)
+    if (!active) return false
+    streamLogger.info(`Stream ${reason}`, { token: active.stream.token.slice(0, 8), ip: active.stream.clientIP })
+    active.kill(reason)
+    return true
+}
+
+/**
+ * Get the current stream limits
+ */
+export function getLimits(): Record<StreamLimitName, number> {
+    return { ...limits }
+}
+
+/**
+ * Change a stream limit at runtime
+ * Applies to new connections only; streams already running are left alone
+ */
+export function setLimit(name: StreamLimitName, value: number): void {
+    streamLogger.info(`Limit changed: ${name} ${limits[name]} -> ${value}`)
+    limits[name] = value
+    scheduleQueue()
+}
+
+/**
+ * Queue depth and wait times for monitoring
+ */
+function getAdmissionStats() {
+    const now = Date.now()
+    return {
+        queued: queue.length,
+        oldestWaitMs: queue.length > 0 ? now - queue[0].enqueuedAt : 0,
+        admittedAfterWait,
+        timeouts: queueTimeouts,
+        queueFull: queueFullRejections,
+        avgWaitMs: recentWaits.length > 0
+            ? Math.round(recentWaits.reduce((a, b) => a + b, 0) / recentWaits.length)
+            : 0,
+        maxWaitMs: recentWaits.length > 0 ? Math.max(...recentWaits) : 0,
+    }
+}
+
 /**
  * Get stats for monitoring
  */
@@ -117,5 +441,8 @@ export function getStats() {
         totalActiveStreams,
         activeTokens: activeStreamsPerToken.size,
         activeUsers: streamsPerIP.size,
+        cache: getCacheStats(),
+        bandwidth: getBandwidthStats(),
+        admission: getAdmissionStats(),
     }
 }
@@ -0,0 +1,17 @@
+import type { TelegramClient } from '@mtcute/node'
+import type { FileEntry } from '../../types/index.js'
+import { createTelegramSource } from './telegram.js'
+import { createLocalSource } from './local.js'
+import type { MediaSource } from './types.js'
+
+export { FileGoneError, type MediaSource, type MediaSourceInfo } from './types.js'
+
+/**
+ * Pick the backend for a file entry
+ */
+export function createMediaSource(tg: TelegramClient, token: string, entry: FileEntry): MediaSource {
+    if (entry.localPath !== undefined) {
+        return createLocalSource(token, entry)
+    }
+    return createTelegramSource(tg, token, entry)
+}
@@ -0,0 +1,70 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import { env } from '../../config/env.js'
+import type { FileEntry } from '../../types/index.js'
+import { FileGoneError, type MediaSource } from './types.js'
+
+/**
+ * Local-directory backend: serves files under LOCAL_MEDIA_DIR (e.g. a NAS mount)
+ */
+
+function isInside(root: string, target: string): boolean {
+    return target === root || target.startsWith(root + path.sep)
+}
+
+/**
+ * Resolve a path relative to LOCAL_MEDIA_DIR to its real location, following symlinks
+ * Returns null if the backend is disabled, the file doesn't exist or it resolves outside
+ * the media directory (".." or a symlink pointing out of it)
+ */
+export async function resolveLocalPath(relativePath: string): Promise<string | null> {
+    if (!env.LOCAL_MEDIA_DIR) return null
+    try {
+        const root = await fs.promises.realpath(env.LOCAL_MEDIA_DIR)
+        const resolved = path.resolve(root, relativePath.replace(/^\/+/, ''))
+        if (!isInside(root, resolved)) return null
+        const real = await fs.promises.realpath(resolved)
+        return isInside(root, real) ? real : null
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Create a source for an entry registered from the media directory
+ */
+export function createLocalSource(token: string, entry: FileEntry): MediaSource {
+    // Resolved again on every request, since a symlink may have been swapped since registration
+    const resolve = () => resolveLocalPath(entry.localPath || '')
+
+    return {
+        async info() {
+            const filePath = await resolve()
+            const stat = filePath ? await fs.promises.stat(filePath).catch(() => null) : null
+            if (!stat?.isFile()) throw new FileGoneError(token)
+            const version = crypto.createHash('sha1')
+                .update(`${entry.localPath}:${stat.size}:${stat.mtimeMs}`)
+                .digest('base64url')
+                .slice(0, 16)
+            return {
+                size: stat.size,
+                etag: `"${version}"`,
+                lastModified: stat.mtime.toUTCString(),
+            }
+        },
+        async *open(range, signal) {
+            const filePath = await resolve()
+            if (!filePath) throw new FileGoneError(token)
+            const stream = fs.createReadStream(filePath, {
+                start: range.start,
+                end: range.end,
+                highWaterMark: 256 * 1024,
+                signal,
+            })
+            for await (const chunk of stream) {
+                yield chunk as Buffer
+            }
+        },
+    }
+}
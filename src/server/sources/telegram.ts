@@ -0,0 +1,43 @@
+import type { TelegramClient } from '@mtcute/node'
+import type { FileEntry } from '../../types/index.js'
+import { getETag, getLastModified } from '../utils/conditional.js'
+import { readRange, type PartSource } from '../utils/part-scheduler.js'
+import { refreshFileReference } from '../utils/file-refresh.js'
+import { readResumable, createRetryBudget } from '../utils/resumable.js'
+import { FileGoneError, type MediaSource } from './types.js'
+
+/**
+ * Telegram backend: shared part fetches, disk cache, reference refresh and mid-stream retries
+ */
+export function createTelegramSource(tg: TelegramClient, token: string, entry: FileEntry): MediaSource {
+    // Parts are shared with other connections to the same file
+    const parts: PartSource = { fileKey: entry.fileUniqueId || entry.fileId, fileId: entry.fileId }
+    if (entry.chatId !== undefined && entry.messageId !== undefined) {
+        parts.refreshFileId = async () => {
+            const freshId = await refreshFileReference(tg, token)
+            if (!freshId) throw new FileGoneError(token)
+            return freshId
+        }
+    }
+
+    // Transient errors resume from the last delivered byte, within one retry budget per response
+    const budget = createRetryBudget(token)
+
+    return {
+        async info() {
+            return {
+                size: entry.fileSize,
+                etag: getETag(entry),
+                lastModified: getLastModified(entry),
+            }
+        },
+        open(range, signal) {
+            return readResumable(
+                (from) => readRange(tg, parts, from, signal),
+                range,
+                signal,
+                budget
+            )
+        },
+    }
+}
@@ -0,0 +1,29 @@
+import type { ByteRange } from '../utils/range.js'
+
+/**
+ * Size and validators of a source's current content
+ */
+export interface MediaSourceInfo {
+    size: number
+    etag: string
+    lastModified: string
+}
+
+/**
+ * Backend that serves the bytes behind a file entry
+ * One instance is created per HTTP request, so it may hold per-request state
+ */
+export interface MediaSource {
+    info(): Promise<MediaSourceInfo>
+    open(range: ByteRange, signal: AbortSignal): AsyncIterable<Buffer>
+}
+
+/**
+ * Thrown when the content behind an entry no longer exists
+ */
+export class FileGoneError extends Error {
+    constructor(token: string) {
+        super(`File for ${token.slice(0, 8)} is gone`)
+        this.name = 'FileGoneError'
+    }
+}
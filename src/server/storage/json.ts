@@ -0,0 +1,169 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { FileEntry } from '../../types/index.js'
+import type { FileStorage } from './types.js'
+import { isSearchable, matchesSearch } from './search.js'
+
+/**
+ * JSON file backend (fallback when SQLite is unavailable)
+ * The whole store is rewritten on each (debounced) save
+ */
+
+export interface JsonStoreData {
+    entries: Record<string, FileEntry>  // token -> FileEntry
+    order: string[]  // For LRU eviction (least recently used first)
+}
+
+/**
+ * Read a JSON store file, filling in fields added after it was written
+ */
+export function readJsonStore(file: string): JsonStoreData | null {
+    if (!fs.existsSync(file)) return null
+    const data: JsonStoreData = JSON.parse(fs.readFileSync(file, 'utf8'))
+    // Entries saved before expiry support have no creation time
+    const now = Date.now()
+    for (const entry of Object.values(data.entries)) {
+        entry.createdAt ??= now
+    }
+    return data
+}
+
+export class JsonFileStorage implements FileStorage {
+    readonly kind = 'json'
+    private store: JsonStoreData = { entries: {}, order: [] }
+    private saveTimeout: ReturnType<typeof setTimeout> | null = null
+
+    constructor(private readonly file: string) {
+        try {
+            const data = readJsonStore(file)
+            if (data) {
+                this.store = data
+                console.log(`[FileStore] Loaded ${this.store.order.length} entries from disk`)
+            }
+        } catch (error) {
+            console.warn('[FileStore] Failed to load store, starting fresh:', error)
+        }
+    }
+
+    /**
+     * Write store to disk atomically (temp file + rename) so a crash mid-write can't corrupt it
+     */
+    private write(): void {
+        try {
+            fs.mkdirSync(path.dirname(this.file), { recursive: true })
+            const tempFile = `${this.file}.${process.pid}.tmp`
+            fs.writeFileSync(tempFile, JSON.stringify(this.store, null, 2))
+            fs.renameSync(tempFile, this.file)
+        } catch (error) {
+            console.error('[FileStore] Failed to save store:', error)
+        }
+    }
+
+    /**
+     * Save store to disk (debounced to avoid excessive writes)
+     */
+    private save(): void {
+        // Debounce: wait 1s before writing to disk
+        if (this.saveTimeout) clearTimeout(this.saveTimeout)
+        this.saveTimeout = setTimeout(() => {
+            this.saveTimeout = null
+            this.write()
+        }, 1000)
+    }
+
+    get(token: string): FileEntry | undefined {
+        return this.store.entries[token]
+    }
+
+    put(token: string, entry: FileEntry): void {
+        if (!this.store.entries[token]) {
+            this.store.order.push(token)
+        }
+        this.store.entries[token] = entry
+        this.save()
+    }
+
+    delete(token: string): void {
+        if (!this.store.entries[token]) return
+        delete this.store.entries[token]
+        this.store.order = this.store.order.filter(t => t !== token)
+        this.save()
+    }
+
+    touch(token: string, at: number): void {
+        const entry = this.store.entries[token]
+        if (!entry) return
+        entry.lastAccessAt = at
+        // Move to the most recently used end
+        const index = this.store.order.indexOf(token)
+        if (index !== -1) this.store.order.splice(index, 1)
+        this.store.order.push(token)
+        this.save()
+    }
+
+    evictLeastRecent(): string | undefined {
+        const index = this.store.order.findIndex(t => !this.store.entries[t]?.pinned)
+        if (index === -1) return undefined
+        const [token] = this.store.order.splice(index, 1)
+        delete this.store.entries[token]
+        this.save()
+        return token
+    }
+
+    count(): number {
+        return this.store.order.length
+    }
+
+    findByMessage(chatId: number, messageId: number): string | undefined {
+        // Newest first, in case the same message was registered more than once
+        let found: string | undefined
+        let newest = -Infinity
+        for (const [token, entry] of Object.entries(this.store.entries)) {
+            if (entry.chatId === chatId && entry.messageId === messageId && entry.createdAt > newest) {
+                found = token
+                newest = entry.createdAt
+            }
+        }
+        return found
+    }
+
+    findByUniqueId(ownerId: number, fileUniqueId: string): string | undefined {
+        let found: string | undefined
+        let newest = -Infinity
+        for (const [token, entry] of Object.entries(this.store.entries)) {
+            if (entry.ownerId === ownerId && entry.fileUniqueId === fileUniqueId && entry.createdAt > newest) {
+                found = token
+                newest = entry.createdAt
+            }
+        }
+        return found
+    }
+
+    listRecent(limit: number): [string, FileEntry][] {
+        return Object.entries(this.store.entries)
+            .sort(([, a], [, b]) => b.createdAt - a.createdAt)
+            .slice(0, limit)
+    }
+
+    listByOwner(ownerId: number, limit: number, offset: number): [string, FileEntry][] {
+        return Object.entries(this.store.entries)
+            .filter(([, entry]) => entry.ownerId === ownerId)
+            .sort(([, a], [, b]) => b.createdAt - a.createdAt)
+            .slice(offset, offset + limit)
+    }
+
+    search(ownerIds: number[], terms: string[], limit: number, now: number): [string, FileEntry][] {
+        return Object.entries(this.store.entries)
+            .filter(([, entry]) => entry.ownerId !== undefined && ownerIds.includes(entry.ownerId)
+                && isSearchable(entry, now) && matchesSearch(entry, terms))
+            .sort(([, a], [, b]) => b.createdAt - a.createdAt)
+            .slice(0, limit)
+    }
+
+    flush(): void {
+        if (!this.saveTimeout) return
+        clearTimeout(this.saveTimeout)
+        this.saveTimeout = null
+        this.write()
+    }
+}
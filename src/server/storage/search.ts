@@ -0,0 +1,35 @@
+import type { FileEntry } from '../../types/index.js'
+
+/**
+ * Search over file names and captions
+ * Text is split into lowercase words without diacritics, the way SQLite's unicode61
+ * tokenizer does, so both backends match the same entries. A query matches when each
+ * of its words is a prefix of some word in the entry.
+ */
+
+/**
+ * Split text into search words, e.g. "Amélie.2001.mkv" -> ["amelie", "2001", "mkv"]
+ */
+export function searchTerms(text: string): string[] {
+    return text
+        .normalize('NFD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+}
+
+/**
+ * Check whether every term prefixes a word of the entry's name or caption
+ */
+export function matchesSearch(entry: FileEntry, terms: string[]): boolean {
+    const words = searchTerms(`${entry.fileName} ${entry.caption ?? ''}`)
+    return terms.every(term => words.some(word => word.startsWith(term)))
+}
+
+/**
+ * Whether an entry can still be served (not revoked, dead or expired at now)
+ */
+export function isSearchable(entry: FileEntry, now: number): boolean {
+    return !entry.revoked && !entry.dead && (entry.expiresAt === undefined || entry.expiresAt > now)
+}
@@ -0,0 +1,271 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import Database from 'better-sqlite3'
+import type { FileEntry } from '../../types/index.js'
+import { readJsonStore } from './json.js'
+import type { FileStorage } from './types.js'
+
+/**
+ * SQLite backend
+ * Each change is its own transaction, and access times are tracked per row for true LRU.
+ * Queried fields live in columns; the full entry is kept as JSON in `data`.
+ */
+
+/**
+ * Schema of the entries table; `id` is declared so VACUUM can't renumber it
+ */
+function entriesTable(name: string): string {
+    return `${name} (
+        id          INTEGER PRIMARY KEY,
+        token       TEXT NOT NULL UNIQUE,
+        owner_id    INTEGER,
+        file_unique_id TEXT,
+        chat_id     INTEGER,
+        message_id  INTEGER,
+        created_at  INTEGER NOT NULL,
+        last_access INTEGER NOT NULL,
+        pinned      INTEGER NOT NULL DEFAULT 0,
+        data        TEXT NOT NULL
+    );`
+}
+
+interface EntryRow {
+    token: string
+    data: string
+}
+
+export class SqliteFileStorage implements FileStorage {
+    readonly kind = 'sqlite'
+    private readonly db: Database.Database
+    private readonly statements
+
+    constructor(file: string) {
+        fs.mkdirSync(path.dirname(file), { recursive: true })
+        this.db = new Database(file)
+        this.db.pragma('journal_mode = WAL')
+        this.db.pragma('synchronous = NORMAL')
+        this.db.exec(`CREATE TABLE IF NOT EXISTS ${entriesTable('file_entries')}`)
+        this.addIdColumn()
+        this.db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_file_entries_lru ON file_entries (pinned, last_access);
+            CREATE INDEX IF NOT EXISTS idx_file_entries_message ON file_entries (chat_id, message_id);
+            CREATE INDEX IF NOT EXISTS idx_file_entries_owner ON file_entries (owner_id);
+            CREATE INDEX IF NOT EXISTS idx_file_entries_unique ON file_entries (owner_id, file_unique_id);
+        `)
+        this.addSearchIndex()
+
+        this.statements = {
+            get: this.db.prepare<[string], EntryRow>('SELECT token, data FROM file_entries WHERE token = ?'),
+            put: this.db.prepare(`
+                INSERT INTO file_entries
+                    (token, owner_id, file_unique_id, chat_id, message_id, created_at, last_access, pinned, data)
+                VALUES
+                    (@token, @ownerId, @fileUniqueId, @chatId, @messageId, @createdAt, @lastAccess, @pinned, @data)
+                ON CONFLICT (token) DO UPDATE SET
+                    owner_id = excluded.owner_id,
+                    file_unique_id = excluded.file_unique_id,
+                    chat_id = excluded.chat_id,
+                    message_id = excluded.message_id,
+                    last_access = excluded.last_access,
+                    pinned = excluded.pinned,
+                    data = excluded.data
+            `),
+            delete: this.db.prepare('DELETE FROM file_entries WHERE token = ?'),
+            touch: this.db.prepare(`
+                UPDATE file_entries
+                SET last_access = @at, data = json_set(data, '$.lastAccessAt', @at)
+                WHERE token = @token
+            `),
+            oldest: this.db.prepare<[], { token: string }>(
+                'SELECT token FROM file_entries WHERE pinned = 0 ORDER BY last_access ASC LIMIT 1'
+            ),
+            count: this.db.prepare<[], { n: number }>('SELECT COUNT(*) AS n FROM file_entries'),
+            byMessage: this.db.prepare<[number, number], { token: string }>(
+                'SELECT token FROM file_entries WHERE chat_id = ? AND message_id = ? ORDER BY created_at DESC LIMIT 1'
+            ),
+            byUniqueId: this.db.prepare<[number, string], { token: string }>(
+                'SELECT token FROM file_entries WHERE owner_id = ? AND file_unique_id = ? ORDER BY created_at DESC LIMIT 1'
+            ),
+            recent: this.db.prepare<[number], EntryRow>(
+                'SELECT token, data FROM file_entries ORDER BY created_at DESC LIMIT ?'
+            ),
+            byOwner: this.db.prepare<[number, number, number], EntryRow>(
+                'SELECT token, data FROM file_entries WHERE owner_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?'
+            ),
+            // File name matches rank above caption matches
+            search: this.db.prepare<{ query: string; owners: string; now: number; limit: number }, EntryRow>(`
+                SELECT e.token, e.data FROM file_search s
+                JOIN file_entries e ON e.id = s.rowid
+                WHERE file_search MATCH @query
+                    AND e.owner_id IN (SELECT value FROM json_each(@owners))
+                    AND json_extract(e.data, '$.revoked') IS NOT 1
+                    AND json_extract(e.data, '$.dead') IS NOT 1
+                    AND IFNULL(json_extract(e.data, '$.expiresAt'), @now + 1) > @now
+                ORDER BY bm25(file_search, 2.0, 1.0)
+                LIMIT @limit
+            `),
+        }
+
+        console.log(`[FileStore] SQLite store ready with ${this.count()} entries`)
+    }
+
+    /**
+     * Rebuild stores created before file_entries had an explicit id column
+     * The search index joins on that id, and an implicit rowid may be renumbered by VACUUM.
+     * The oldest stores also lack file_unique_id, so it is filled in from the JSON here.
+     */
+    private addIdColumn(): void {
+        const columns = this.db.prepare<[], { name: string }>('PRAGMA table_info(file_entries)').all()
+        if (columns.some(column => column.name === 'id')) return
+
+        const rebuild = this.db.transaction(() => {
+            this.db.exec(`
+                CREATE TABLE ${entriesTable('file_entries_new')}
+                INSERT INTO file_entries_new
+                    (token, owner_id, file_unique_id, chat_id, message_id, created_at, last_access, pinned, data)
+                SELECT token, owner_id, json_extract(data, '$.fileUniqueId'), chat_id, message_id,
+                    created_at, last_access, pinned, data
+                FROM file_entries;
+                DROP TABLE file_entries;
+                ALTER TABLE file_entries_new RENAME TO file_entries;
+                DROP TABLE IF EXISTS file_search;
+            `)
+        })
+        rebuild()
+        console.log('[FileStore] Rebuilt SQLite store with explicit entry ids')
+    }
+
+    /**
+     * Full-text index over file names and captions, kept in sync by triggers
+     * Rows are keyed by file_entries.id; a missing index (new or rebuilt store) is backfilled.
+     */
+    private addSearchIndex(): void {
+        const exists = this.db.prepare(
+            "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'file_search'"
+        ).get()
+        this.db.exec(`
+            CREATE VIRTUAL TABLE IF NOT EXISTS file_search
+                USING fts5(file_name, caption, tokenize = 'unicode61 remove_diacritics 2');
+            CREATE TRIGGER IF NOT EXISTS file_search_insert AFTER INSERT ON file_entries BEGIN
+                INSERT INTO file_search (rowid, file_name, caption)
+                VALUES (new.id, json_extract(new.data, '$.fileName'), json_extract(new.data, '$.caption'));
+            END;
+            CREATE TRIGGER IF NOT EXISTS file_search_delete AFTER DELETE ON file_entries BEGIN
+                DELETE FROM file_search WHERE rowid = old.id;
+            END;
+            CREATE TRIGGER IF NOT EXISTS file_search_update AFTER UPDATE OF data ON file_entries
+            WHEN json_extract(old.data, '$.fileName') IS NOT json_extract(new.data, '$.fileName')
+                OR json_extract(old.data, '$.caption') IS NOT json_extract(new.data, '$.caption')
+            BEGIN
+                DELETE FROM file_search WHERE rowid = old.id;
+                INSERT INTO file_search (rowid, file_name, caption)
+                VALUES (new.id, json_extract(new.data, '$.fileName'), json_extract(new.data, '$.caption'));
+            END;
+        `)
+        if (!exists) {
+            this.db.exec(`
+                INSERT INTO file_search (rowid, file_name, caption)
+                SELECT id, json_extract(data, '$.fileName'), json_extract(data, '$.caption') FROM file_entries;
+            `)
+        }
+    }
+
+    /**
+     * Import entries from the legacy JSON store, once
+     * The JSON file is renamed afterwards so the import never runs twice
+     */
+    migrateFromJson(jsonFile: string): void {
+        const data = readJsonStore(jsonFile)
+        if (!data) return
+
+        // Preserve the old LRU order by spacing access times in order
+        const base = Date.now() - data.order.length
+        const importAll = this.db.transaction(() => {
+            data.order.forEach((token, i) => {
+                const entry = data.entries[token]
+                if (!entry || this.get(token)) return
+                entry.lastAccessAt ??= base + i
+                this.put(token, entry)
+            })
+        })
+        importAll()
+
+        fs.renameSync(jsonFile, `${jsonFile}.migrated`)
+        console.log(`[FileStore] Migrated ${data.order.length} entries from ${path.basename(jsonFile)}`)
+    }
+
+    get(token: string): FileEntry | undefined {
+        const row = this.statements.get.get(token)
+        return row ? JSON.parse(row.data) : undefined
+    }
+
+    put(token: string, entry: FileEntry): void {
+        this.statements.put.run({
+            token,
+            ownerId: entry.ownerId ?? null,
+            fileUniqueId: entry.fileUniqueId ?? null,
+            chatId: entry.chatId ?? null,
+            messageId: entry.messageId ?? null,
+            createdAt: entry.createdAt,
+            lastAccess: entry.lastAccessAt ?? entry.createdAt,
+            pinned: entry.pinned ? 1 : 0,
+            data: JSON.stringify(entry),
+        })
+    }
+
+    delete(token: string): void {
+        this.statements.delete.run(token)
+    }
+
+    touch(token: string, at: number): void {
+        this.statements.touch.run({ token, at })
+    }
+
+    evictLeastRecent(): string | undefined {
+        const row = this.statements.oldest.get()
+        if (!row) return undefined
+        this.statements.delete.run(row.token)
+        return row.token
+    }
+
+    count(): number {
+        return this.statements.count.get()!.n
+    }
+
+    findByMessage(chatId: number, messageId: number): string | undefined {
+        return this.statements.byMessage.get(chatId, messageId)?.token
+    }
+
+    findByUniqueId(ownerId: number, fileUniqueId: string): string | undefined {
+        return this.statements.byUniqueId.get(ownerId, fileUniqueId)?.token
+    }
+
+    listRecent(limit: number): [string, FileEntry][] {
+        return this.statements.recent.all(limit).map(row => [row.token, JSON.parse(row.data)])
+    }
+
+    listByOwner(ownerId: number, limit: number, offset: number): [string, FileEntry][] {
+        return this.statements.byOwner.all(ownerId, limit, offset).map(row => [row.token, JSON.parse(row.data)])
+    }
+
+    search(ownerIds: number[], terms: string[], limit: number, now: number): [string, FileEntry][] {
+        if (terms.length === 0 || ownerIds.length === 0) return []
+        // Each term as a quoted prefix query; terms are plain words, but quote them anyway
+        const query = terms.map(term => `"${term.replace(/"/g, '""')}"*`).join(' ')
+        return this.statements.search
+            .all({ query, owners: JSON.stringify(ownerIds), now, limit })
+            .map(row => [row.token, JSON.parse(row.data)])
+    }
+
+    /**
+     * Close the database (used when falling back to another backend)
+     */
+    close(): void {
+        this.db.close()
+    }
+
+    flush(): void {
+        // Writes are already durable; fold the WAL back into the main file
+        this.db.pragma('wal_checkpoint(TRUNCATE)')
+    }
+}
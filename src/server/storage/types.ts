@@ -0,0 +1,29 @@
+import type { FileEntry } from '../../types/index.js'
+
+/**
+ * Persistence backend behind the file store
+ * Calls are synchronous so the store's API stays synchronous for callers
+ */
+export interface FileStorage {
+    readonly kind: 'sqlite' | 'json'
+    get(token: string): FileEntry | undefined
+    // Insert or replace an entry
+    put(token: string, entry: FileEntry): void
+    delete(token: string): void
+    // Record an access for LRU eviction
+    touch(token: string, at: number): void
+    // Remove the least recently used unpinned entry, returning its token
+    evictLeastRecent(): string | undefined
+    count(): number
+    findByMessage(chatId: number, messageId: number): string | undefined
+    // Newest entry an owner registered for a Telegram file (by its unique ID)
+    findByUniqueId(ownerId: number, fileUniqueId: string): string | undefined
+    // Most recently registered entries, newest first
+    listRecent(limit: number): [string, FileEntry][]
+    // An owner's entries, newest first
+    listByOwner(ownerId: number, limit: number, offset: number): [string, FileEntry][]
+    // Usable entries of the given owners whose name or caption matches every term, best first
+    search(ownerIds: number[], terms: string[], limit: number, now: number): [string, FileEntry][]
+    // Write out anything still buffered (used on shutdown)
+    flush(): void
+}
@@ -0,0 +1,60 @@
+import crypto from 'node:crypto'
+import type http from 'node:http'
+import { accessLogger } from '../../utils/logger.js'
+import { getClientIP } from './proxy.js'
+
+/**
+ * Per-request access records
+ * Each request gets an ID (sent back as X-Request-Id) and writes one record to the
+ * access log when its response closes, however it ended.
+ */
+
+export type EndReason = 'complete' | 'client_disconnect' | 'stall' | 'killed' | 'error'
+
+/**
+ * What a handler knows about its request, filled in as it goes
+ */
+export interface RequestContext {
+    id: string
+    startedAt: number
+    route: string           // Route pattern, e.g. /stream/:token
+    token?: string
+    ttfbMs?: number         // Time to first body byte
+    endReason?: EndReason   // Set by handlers that know better than the response state
+}
+
+/**
+ * Start tracking a request and write its access record when the response closes
+ */
+export function beginRequest(req: http.IncomingMessage, res: http.ServerResponse): RequestContext {
+    const context: RequestContext = {
+        id: crypto.randomBytes(8).toString('hex'),
+        startedAt: Date.now(),
+        route: 'unknown',
+    }
+    res.setHeader('X-Request-Id', context.id)
+
+    // Keep-alive sockets carry several requests, so count from here
+    const socket = req.socket
+    const bytesBefore = socket.bytesWritten
+
+    res.once('close', () => {
+        accessLogger.info('access', {
+            requestId: context.id,
+            method: req.method,
+            route: context.route,
+            token: context.token?.slice(0, 8),
+            ip: getClientIP(req),
+            userAgent: req.headers['user-agent'],
+            range: req.headers.range,
+            // Nothing was sent if the client left before the response started
+            status: res.headersSent ? res.statusCode : undefined,
+            bytes: socket.bytesWritten - bytesBefore,  // Headers included
+            durationMs: Date.now() - context.startedAt,
+            ttfbMs: context.ttfbMs,
+            endReason: context.endReason ?? (res.writableFinished ? 'complete' : 'client_disconnect'),
+        })
+    })
+
+    return context
+}
@@ -0,0 +1,98 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import type http from 'node:http'
+import { streamLogger } from '../../utils/logger.js'
+
+/**
+ * Per-user API keys for the HTTP API
+ * Each user has at most one key, issued with /apikey. Only a SHA-256 hash of each key is
+ * saved (bot-data/api-keys.json), so the key itself is shown once when it is issued.
+ */
+
+const API_KEYS_FILE = path.join(process.cwd(), 'bot-data', 'api-keys.json')
+
+interface ApiKeyRecord {
+    userId: number
+    createdAt: number  // Unix ms
+}
+
+// Key hash -> owner
+const keys = new Map<string, ApiKeyRecord>()
+
+function hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+function load(): void {
+    try {
+        if (!fs.existsSync(API_KEYS_FILE)) return
+        const data: Record<string, ApiKeyRecord> = JSON.parse(fs.readFileSync(API_KEYS_FILE, 'utf8'))
+        for (const [hash, record] of Object.entries(data)) {
+            keys.set(hash, record)
+        }
+        streamLogger.info(`API keys: loaded ${keys.size} keys`)
+    } catch (error) {
+        streamLogger.warn('API keys: failed to load, starting fresh', { error })
+    }
+}
+
+/**
+ * Write keys to disk atomically (temp file + rename)
+ */
+function save(): void {
+    try {
+        fs.mkdirSync(path.dirname(API_KEYS_FILE), { recursive: true })
+        const tempFile = `${API_KEYS_FILE}.${process.pid}.tmp`
+        fs.writeFileSync(tempFile, JSON.stringify(Object.fromEntries(keys), null, 2), { mode: 0o600 })
+        fs.renameSync(tempFile, API_KEYS_FILE)
+    } catch (error) {
+        streamLogger.error('API keys: failed to save', { error })
+    }
+}
+
+function deleteUserKeys(userId: number): boolean {
+    let deleted = false
+    for (const [hash, record] of keys) {
+        if (record.userId === userId) {
+            keys.delete(hash)
+            deleted = true
+        }
+    }
+    return deleted
+}
+
+/**
+ * Issue a new key for a user, replacing any previous one
+ */
+export function issueApiKey(userId: number): string {
+    const key = crypto.randomBytes(24).toString('base64url')
+    deleteUserKeys(userId)
+    keys.set(hashKey(key), { userId, createdAt: Date.now() })
+    save()
+    return key
+}
+
+/**
+ * Revoke a user's key; returns false if they had none
+ */
+export function revokeApiKey(userId: number): boolean {
+    if (!deleteUserKeys(userId)) return false
+    save()
+    return true
+}
+
+/**
+ * Resolve the user behind a request's API key
+ * The key is read from "Authorization: Bearer <key>" or X-Api-Key
+ */
+export function authenticateApiKey(req: http.IncomingMessage): number | null {
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1]
+    const header = req.headers['x-api-key']
+    const key = bearer ?? (Array.isArray(header) ? header[0] : header)
+    if (!key) return null
+    return keys.get(hashKey(key))?.userId ?? null
+}
+
+// Load keys on module initialization
+load()
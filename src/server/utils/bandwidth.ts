@@ -0,0 +1,159 @@
+import { env } from '../../config/env.js'
+import { RATE_METER_WINDOW } from '../../config/constants.js'
+
+/**
+ * Bandwidth shaping with token buckets at three levels: per stream, per client IP and global
+ * A chunk waits until every bucket it passes through has room for it. Buckets start full,
+ * so a new stream gets BANDWIDTH_BURST_MB at full speed to fill the player's buffer.
+ */
+
+const KB = 1024
+const BURST_BYTES = env.BANDWIDTH_BURST_MB * 1024 * 1024
+
+/**
+ * Token bucket that may go into debt
+ * Chunks can be larger than the burst size (Telegram parts are 1MB), so instead of
+ * waiting for room a chunk takes its tokens up front and the next one waits off the debt.
+ */
+class TokenBucket {
+    private tokens: number
+    private updatedAt = Date.now()
+
+    constructor(private readonly rate: number, private readonly capacity: number) {
+        this.tokens = capacity
+    }
+
+    /**
+     * Take tokens for a chunk, returning how long to wait before sending it (ms)
+     */
+    take(bytes: number): number {
+        const now = Date.now()
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) / 1000 * this.rate)
+        this.updatedAt = now
+        const wait = this.tokens < 0 ? -this.tokens / this.rate * 1000 : 0
+        this.tokens -= bytes
+        return wait
+    }
+}
+
+/**
+ * Bytes per second over the last RATE_METER_WINDOW seconds
+ */
+class RateMeter {
+    private readonly buckets = new Array<number>(RATE_METER_WINDOW).fill(0)
+    private second = Math.floor(Date.now() / 1000)
+
+    private advance(): void {
+        const now = Math.floor(Date.now() / 1000)
+        const elapsed = Math.min(now - this.second, RATE_METER_WINDOW)
+        for (let i = 1; i <= elapsed; i++) {
+            this.buckets[(this.second + i) % RATE_METER_WINDOW] = 0
+        }
+        this.second = now
+    }
+
+    add(bytes: number): void {
+        this.advance()
+        this.buckets[this.second % RATE_METER_WINDOW] += bytes
+    }
+
+    rate(): number {
+        this.advance()
+        return Math.round(this.buckets.reduce((a, b) => a + b, 0) / RATE_METER_WINDOW)
+    }
+}
+
+/**
+ * A bucket (if that level is limited) with its meter
+ */
+interface Shaper {
+    bucket: TokenBucket | null
+    meter: RateMeter
+}
+
+function createShaper(rateKBps: number): Shaper {
+    return {
+        bucket: rateKBps > 0 ? new TokenBucket(rateKBps * KB, Math.max(BURST_BYTES, rateKBps * KB)) : null,
+        meter: new RateMeter(),
+    }
+}
+
+const globalShaper = createShaper(env.GLOBAL_BANDWIDTH_KBPS)
+
+/**
+ * Per-IP shapers, shared by that IP's streams and dropped when the last one ends
+ */
+const ipShapers = new Map<string, Shaper & { streams: number }>()
+
+/**
+ * Shaping for one stream, see createStreamShaper
+ */
+export interface StreamShaper {
+    // Resolves once the chunk may be sent (immediately if the stream was aborted)
+    throttle(bytes: number, signal: AbortSignal): Promise<void>
+    // Current rate of this stream in bytes per second
+    rate(): number
+    // Release the per-IP shaper; call once when the stream ends
+    release(): void
+}
+
+/**
+ * Create the shaper for a new stream from clientIP
+ */
+export function createStreamShaper(clientIP: string): StreamShaper {
+    const stream = createShaper(env.STREAM_BANDWIDTH_KBPS)
+
+    let ip = ipShapers.get(clientIP)
+    if (!ip) {
+        ip = { ...createShaper(env.IP_BANDWIDTH_KBPS), streams: 0 }
+        ipShapers.set(clientIP, ip)
+    }
+    ip.streams++
+    const ipShaper = ip
+
+    let released = false
+
+    return {
+        throttle(bytes, signal) {
+            const shapers = [stream, ipShaper, globalShaper]
+            for (const shaper of shapers) shaper.meter.add(bytes)
+
+            const wait = Math.max(...shapers.map(shaper => shaper.bucket?.take(bytes) ?? 0))
+            if (wait <= 0 || signal.aborted) return Promise.resolve()
+
+            return new Promise(resolve => {
+                const done = () => {
+                    clearTimeout(timer)
+                    signal.removeEventListener('abort', done)
+                    resolve()
+                }
+                const timer = setTimeout(done, wait)
+                signal.addEventListener('abort', done, { once: true })
+            })
+        },
+        rate: () => stream.meter.rate(),
+        release() {
+            if (released) return
+            released = true
+            if (--ipShaper.streams <= 0) ipShapers.delete(clientIP)
+        },
+    }
+}
+
+/**
+ * Current rates (bytes/s) and configured limits (KB/s, 0 = unlimited)
+ */
+export function getBandwidthStats() {
+    return {
+        globalBytesPerSecond: globalShaper.meter.rate(),
+        perIP: Object.fromEntries(
+            Array.from(ipShapers, ([ip, shaper]) => [ip, shaper.meter.rate()])
+        ),
+        limits: {
+            streamKBps: env.STREAM_BANDWIDTH_KBPS,
+            ipKBps: env.IP_BANDWIDTH_KBPS,
+            globalKBps: env.GLOBAL_BANDWIDTH_KBPS,
+            burstMB: env.BANDWIDTH_BURST_MB,
+        },
+    }
+}
@@ -0,0 +1,180 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import { env } from '../../config/env.js'
+import { streamLogger } from '../../utils/logger.js'
+
+/**
+ * On-disk LRU cache for Telegram file parts
+ * Keyed by file unique ID and aligned part index. Each file starts with a SHA-256
+ * of the payload, so truncated or corrupted parts are detected and dropped on read.
+ */
+
+const CACHE_DIR = path.resolve(env.CACHE_DIR)
+const MAX_BYTES = env.CACHE_MAX_SIZE_MB * 1024 * 1024
+const DIGEST_SIZE = 32
+
+interface CacheItem {
+    size: number  // Bytes on disk
+}
+
+// Insertion order doubles as LRU order (oldest first); hits are re-inserted
+const index = new Map<string, CacheItem>()
+const pendingWrites = new Set<string>()
+let totalBytes = 0
+
+let hits = 0
+let misses = 0
+let corrupt = 0
+let evictions = 0
+
+/**
+ * Whether the cache is enabled (CACHE_MAX_SIZE_MB > 0)
+ */
+export function isCacheEnabled(): boolean {
+    return MAX_BYTES > 0
+}
+
+function cacheKey(fileKey: string, part: number): string {
+    // Hash the file key so arbitrary IDs are safe as file names
+    const id = crypto.createHash('sha1').update(fileKey).digest('hex')
+    return `${id}-${part}`
+}
+
+function cachePath(key: string): string {
+    return path.join(CACHE_DIR, `${key}.part`)
+}
+
+/**
+ * Scan the cache directory on startup, oldest access first
+ */
+function loadIndex(): void {
+    if (!isCacheEnabled()) return
+    try {
+        fs.mkdirSync(CACHE_DIR, { recursive: true })
+        const items = fs.readdirSync(CACHE_DIR)
+            .filter(name => name.endsWith('.part'))
+            .map(name => {
+                const stat = fs.statSync(path.join(CACHE_DIR, name))
+                return { key: name.slice(0, -'.part'.length), size: stat.size, mtime: stat.mtimeMs }
+            })
+            .sort((a, b) => a.mtime - b.mtime)
+        for (const item of items) {
+            index.set(item.key, { size: item.size })
+            totalBytes += item.size
+        }
+        streamLogger.info(`Chunk cache: ${index.size} parts, ${Math.round(totalBytes / 1024 / 1024)}MB`)
+        evict()
+    } catch (error) {
+        streamLogger.warn('Chunk cache: failed to load index', { error })
+    }
+}
+
+/**
+ * Evict least recently used parts until under the size cap
+ */
+function evict(): void {
+    for (const [key, item] of index) {
+        if (totalBytes <= MAX_BYTES) break
+        if (pendingWrites.has(key)) continue
+        index.delete(key)
+        totalBytes -= item.size
+        evictions++
+        fs.promises.unlink(cachePath(key)).catch(() => {})
+    }
+}
+
+function remove(key: string): void {
+    const item = index.get(key)
+    if (!item) return
+    index.delete(key)
+    totalBytes -= item.size
+    fs.promises.unlink(cachePath(key)).catch(() => {})
+}
+
+/**
+ * Read a cached part, verifying its checksum
+ * Returns null on a miss or if the stored part is corrupt
+ */
+export async function readCachedPart(fileKey: string, part: number): Promise<Buffer | null> {
+    if (!isCacheEnabled()) return null
+
+    const key = cacheKey(fileKey, part)
+    const item = index.get(key)
+    if (!item) {
+        misses++
+        return null
+    }
+
+    try {
+        const data = await fs.promises.readFile(cachePath(key))
+        const payload = data.subarray(DIGEST_SIZE)
+        const digest = crypto.createHash('sha256').update(payload).digest()
+        if (data.length < DIGEST_SIZE || !digest.equals(data.subarray(0, DIGEST_SIZE))) {
+            streamLogger.warn('Chunk cache: checksum mismatch, dropping part', { key })
+            corrupt++
+            misses++
+            remove(key)
+            return null
+        }
+
+        // Bump to most recently used (in memory and on disk for restarts)
+        index.delete(key)
+        index.set(key, item)
+        const now = new Date()
+        fs.promises.utimes(cachePath(key), now, now).catch(() => {})
+
+        hits++
+        return payload
+    } catch {
+        misses++
+        remove(key)
+        return null
+    }
+}
+
+/**
+ * Store a part (atomic write via temp file + rename), evicting old parts as needed
+ */
+export async function writeCachedPart(fileKey: string, part: number, data: Buffer): Promise<void> {
+    if (!isCacheEnabled() || data.length === 0 || data.length + DIGEST_SIZE > MAX_BYTES) return
+
+    const key = cacheKey(fileKey, part)
+    if (index.has(key) || pendingWrites.has(key)) return
+
+    pendingWrites.add(key)
+    const target = cachePath(key)
+    const temp = `${target}.${process.pid}.tmp`
+    try {
+        const digest = crypto.createHash('sha256').update(data).digest()
+        await fs.promises.writeFile(temp, Buffer.concat([digest, data]))
+        await fs.promises.rename(temp, target)
+        index.set(key, { size: data.length + DIGEST_SIZE })
+        totalBytes += data.length + DIGEST_SIZE
+    } catch (error) {
+        streamLogger.warn('Chunk cache: write failed', { key, error: (error as Error).message })
+        fs.promises.unlink(temp).catch(() => {})
+    } finally {
+        pendingWrites.delete(key)
+    }
+    evict()
+}
+
+/**
+ * Get cache stats for monitoring
+ */
+export function getCacheStats() {
+    return {
+        enabled: isCacheEnabled(),
+        parts: index.size,
+        sizeMB: Math.round(totalBytes / 1024 / 1024),
+        maxSizeMB: env.CACHE_MAX_SIZE_MB,
+        hits,
+        misses,
+        corrupt,
+        evictions,
+    }
+}
+
+// Load index on module initialization
+loadIndex()
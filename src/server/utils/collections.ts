@@ -0,0 +1,121 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { env } from '../../config/env.js'
+import { streamLogger } from '../../utils/logger.js'
+import { signToken } from './signing.js'
+import { generateToken, lookupFileEntry, type LinkOptions } from './file-store.js'
+import type { Collection, FileEntry } from '../../types/index.js'
+
+/**
+ * Collections of file entries (albums and /batch), served as playlists
+ * A collection only references entry tokens, so revoked or expired items simply drop
+ * out of its playlist. Saved to bot-data/collections.json.
+ */
+
+const COLLECTIONS_FILE = path.join(process.cwd(), 'bot-data', 'collections.json')
+
+export type PlaylistFormat = 'm3u8' | 'xspf'
+
+const collections = new Map<string, Collection>()
+
+function load(): void {
+    try {
+        if (!fs.existsSync(COLLECTIONS_FILE)) return
+        const data: Record<string, Collection> = JSON.parse(fs.readFileSync(COLLECTIONS_FILE, 'utf8'))
+        for (const [token, collection] of Object.entries(data)) {
+            collections.set(token, collection)
+        }
+        streamLogger.info(`Collections: loaded ${collections.size} collections`)
+    } catch (error) {
+        streamLogger.warn('Collections: failed to load, starting fresh', { error })
+    }
+}
+
+/**
+ * Write collections to disk atomically (temp file + rename)
+ */
+function save(): void {
+    try {
+        fs.mkdirSync(path.dirname(COLLECTIONS_FILE), { recursive: true })
+        const tempFile = `${COLLECTIONS_FILE}.${process.pid}.tmp`
+        fs.writeFileSync(tempFile, JSON.stringify(Object.fromEntries(collections), null, 2))
+        fs.renameSync(tempFile, COLLECTIONS_FILE)
+    } catch (error) {
+        streamLogger.error('Collections: failed to save', { error })
+    }
+}
+
+/**
+ * Create a collection, returning its token
+ * For an album that already has a collection (its messages can arrive in more than one
+ * update), the new items are appended to it instead.
+ */
+export function createCollection(ownerId: number, name: string, tokens: string[], groupId?: string): string {
+    if (groupId) {
+        const existing = Array.from(collections).find(([, c]) => c.ownerId === ownerId && c.groupId === groupId)
+        if (existing) {
+            const [token, collection] = existing
+            collection.tokens.push(...tokens.filter(t => !collection.tokens.includes(t)))
+            save()
+            return token
+        }
+    }
+
+    const token = generateToken()
+    collections.set(token, { name, ownerId, tokens: [...new Set(tokens)], createdAt: Date.now(), groupId })
+    save()
+    return token
+}
+
+export function getCollection(token: string): Collection | undefined {
+    return collections.get(token)
+}
+
+export function deleteCollection(token: string): boolean {
+    if (!collections.delete(token)) return false
+    save()
+    return true
+}
+
+/**
+ * Point collections at an entry's new token after it was rotated
+ */
+export function replaceCollectionToken(oldToken: string, newToken: string): void {
+    let changed = false
+    for (const collection of collections.values()) {
+        const index = collection.tokens.indexOf(oldToken)
+        if (index === -1) continue
+        collection.tokens[index] = newToken
+        changed = true
+    }
+    if (changed) save()
+}
+
+/**
+ * A user's (or channel's) collections, newest first
+ */
+export function listCollections(ownerId: number): { token: string; collection: Collection }[] {
+    return Array.from(collections, ([token, collection]) => ({ token, collection }))
+        .filter(({ collection }) => collection.ownerId === ownerId)
+        .sort((a, b) => b.collection.createdAt - a.collection.createdAt)
+}
+
+/**
+ * The collection's entries that can still be streamed, in order
+ */
+export function getCollectionItems(collection: Collection): { token: string; entry: FileEntry }[] {
+    return collection.tokens.flatMap(token => {
+        const lookup = lookupFileEntry(token)
+        return lookup.status === 'active' ? [{ token, entry: lookup.entry }] : []
+    })
+}
+
+/**
+ * Get the signed playlist URL for a collection
+ */
+export function getPlaylistUrl(token: string, format: PlaylistFormat, options?: LinkOptions): string {
+    return `${options?.baseUrl ?? env.HOST}/playlist/${token}.${format}?${signToken(token, options)}`
+}
+
+// Load collections on module initialization
+load()
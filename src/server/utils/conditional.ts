@@ -0,0 +1,73 @@
+import crypto from 'node:crypto'
+import type http from 'node:http'
+import type { FileEntry } from '../../types/index.js'
+
+/**
+ * HTTP validators and conditional request handling (RFC 7232)
+ */
+
+/**
+ * Build a stable strong ETag for a file entry
+ * Telegram's unique file ID identifies the content regardless of which token or fileId points at it
+ */
+export function getETag(entry: FileEntry): string {
+    const id = entry.fileUniqueId
+        || crypto.createHash('sha1').update(entry.fileId).digest('base64url').slice(0, 16)
+    return `"${id}-${entry.fileSize.toString(36)}"`
+}
+
+/**
+ * Last-Modified value for a file entry (registration time, second precision)
+ */
+export function getLastModified(entry: FileEntry): string {
+    return new Date(entry.createdAt).toUTCString()
+}
+
+/**
+ * Check whether an If-Match / If-None-Match list contains the ETag
+ */
+function matchesETag(header: string, etag: string, weak: boolean): boolean {
+    if (header.trim() === '*') return true
+    const strip = (tag: string) => weak ? tag.replace(/^W\//, '') : tag
+    return header.split(',').some(tag => {
+        const candidate = tag.trim()
+        if (!weak && candidate.startsWith('W/')) return false
+        return strip(candidate) === strip(etag)
+    })
+}
+
+/**
+ * Outcome of evaluating request preconditions
+ */
+export type PreconditionResult = 'proceed' | 'not_modified' | 'failed'
+
+/**
+ * Evaluate conditional headers in RFC 7232 §6 order
+ */
+export function evaluatePreconditions(
+    req: http.IncomingMessage,
+    etag: string,
+    lastModified: string
+): PreconditionResult {
+    const modifiedAt = Date.parse(lastModified)
+    const ifMatch = req.headers['if-match']
+    const ifUnmodifiedSince = req.headers['if-unmodified-since']
+    const ifNoneMatch = req.headers['if-none-match']
+    const ifModifiedSince = req.headers['if-modified-since']
+
+    if (ifMatch) {
+        if (!matchesETag(ifMatch, etag, false)) return 'failed'
+    } else if (ifUnmodifiedSince) {
+        const date = Date.parse(ifUnmodifiedSince)
+        if (!isNaN(date) && modifiedAt > date) return 'failed'
+    }
+
+    if (ifNoneMatch) {
+        if (matchesETag(ifNoneMatch, etag, true)) return 'not_modified'
+    } else if (ifModifiedSince) {
+        const date = Date.parse(ifModifiedSince)
+        if (!isNaN(date) && modifiedAt <= date) return 'not_modified'
+    }
+
+    return 'proceed'
+}
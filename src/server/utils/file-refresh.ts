@@ -0,0 +1,73 @@
+import { tl, MtUnsupportedError, type TelegramClient } from '@mtcute/node'
+import { streamLogger } from '../../utils/logger.js'
+import { lookupFileEntry, updateFileId, updateSubtitleFileId, markFileDead } from './file-store.js'
+
+/**
+ * Refreshing of expired Telegram file references
+ * A fileId embeds a file reference that Telegram expires after a while; re-fetching
+ * the source message yields a fresh fileId for the same file.
+ */
+
+/**
+ * Check whether a download error means the file reference needs refreshing
+ */
+export function isFileReferenceError(error: unknown): boolean {
+    if (tl.RpcError.is(error)) {
+        return error.text.startsWith('FILE_REFERENCE_')
+    }
+    // mtcute converts FILEREF_UPGRADE_NEEDED into this
+    return error instanceof MtUnsupportedError && error.message.includes('File ref expired')
+}
+
+// Concurrent parts of the same stream share one refresh
+const refreshing = new Map<string, Promise<string | null>>()
+
+/**
+ * Re-fetch the source message of an entry and store its fresh fileId
+ * Returns null (and marks the entry dead) if the message or its media is gone
+ */
+export function refreshFileReference(tg: TelegramClient, token: string): Promise<string | null> {
+    const existing = refreshing.get(token)
+    if (existing) return existing
+
+    const promise = (async () => {
+        const lookup = lookupFileEntry(token)
+        if (lookup.status === 'not_found') return null
+        const { entry } = lookup
+        if (entry.chatId === undefined || entry.messageId === undefined) return null
+
+        const [message] = await tg.getMessages(entry.chatId, entry.messageId)
+        const media = message?.media as { fileId?: string; uniqueFileId?: string } | null | undefined
+        const sameFile = !entry.fileUniqueId || media?.uniqueFileId === entry.fileUniqueId
+        if (!media?.fileId || !sameFile) {
+            streamLogger.warn('Source message deleted, marking link dead', { token: token.slice(0, 8) })
+            markFileDead(token)
+            return null
+        }
+
+        streamLogger.info('Refreshed file reference', { token: token.slice(0, 8) })
+        updateFileId(token, media.fileId)
+        return media.fileId
+    })().finally(() => refreshing.delete(token))
+
+    refreshing.set(token, promise)
+    return promise
+}
+
+/**
+ * Re-fetch the message a subtitle track was sent in and store its fresh fileId
+ * Returns null if the track has no source message or the message is gone
+ */
+export async function refreshSubtitleReference(tg: TelegramClient, token: string, index: number): Promise<string | null> {
+    const lookup = lookupFileEntry(token)
+    const source = lookup.status === 'not_found' ? undefined : lookup.entry.subtitles?.[index]?.source
+    if (!source) return null
+
+    const [message] = await tg.getMessages(source.chatId, source.messageId)
+    const media = message?.media as { fileId?: string } | null | undefined
+    if (!media?.fileId) return null
+
+    streamLogger.info('Refreshed subtitle file reference', { token: token.slice(0, 8), track: index })
+    updateSubtitleFileId(token, index, media.fileId)
+    return media.fileId
+}
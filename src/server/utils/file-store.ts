@@ -1,108 +1,317 @@
-import fs from 'node:fs'
+import crypto from 'node:crypto'
 import path from 'node:path'
 import { env } from '../../config/env.js'
-import type { FileEntry } from '../../types/index.js'
+import { signToken, type SignOptions } from './signing.js'
+import { SqliteFileStorage } from '../storage/sqlite.js'
+import { JsonFileStorage } from '../storage/json.js'
+import type { FileStorage } from '../storage/types.js'
+import { searchTerms } from '../storage/search.js'
+import type { FileEntry, FileLookup, MediaInfo, MessageRef, SubtitleTrack } from '../../types/index.js'
 
 /**
- * Persistent file store using JSON file
+ * Persistent file store
+ * Backed by SQLite (bot-data/file-store.db), with the JSON file as a fallback.
  * Survives PM2 restarts when memory limit is reached
  */
 
-const STORE_FILE = path.join(process.cwd(), 'bot-data', 'file-store.json')
-
-interface StoreData {
-    entries: Record<string, FileEntry>  // token -> FileEntry
-    order: string[]  // For LRU eviction (oldest first)
-}
-
-// In-memory cache (loaded from file on startup)
-let store: StoreData = { entries: {}, order: [] }
+const DATA_DIR = path.join(process.cwd(), 'bot-data')
+const JSON_STORE_FILE = path.join(DATA_DIR, 'file-store.json')
+const SQLITE_STORE_FILE = path.join(DATA_DIR, 'file-store.db')
 
 /**
- * Load store from disk
+ * Open the configured backend, falling back to JSON if SQLite can't be opened
  */
-function loadStore(): void {
-    try {
-        if (fs.existsSync(STORE_FILE)) {
-            const data = fs.readFileSync(STORE_FILE, 'utf8')
-            store = JSON.parse(data)
-            console.log(`[FileStore] Loaded ${store.order.length} entries from disk`)
+function openStorage(): FileStorage {
+    if (env.FILE_STORE === 'sqlite') {
+        let sqlite: SqliteFileStorage | undefined
+        try {
+            sqlite = new SqliteFileStorage(SQLITE_STORE_FILE)
+            sqlite.migrateFromJson(JSON_STORE_FILE)
+            return sqlite
+        } catch (error) {
+            sqlite?.close()
+            console.warn('[FileStore] SQLite unavailable, falling back to JSON store:', error)
         }
-    } catch (error) {
-        console.warn('[FileStore] Failed to load store, starting fresh:', error)
-        store = { entries: {}, order: [] }
     }
+    return new JsonFileStorage(JSON_STORE_FILE)
 }
 
+const storage = openStorage()
+
 /**
- * Save store to disk (debounced to avoid excessive writes)
+ * Apply a change to an entry and persist it
  */
-let saveTimeout: ReturnType<typeof setTimeout> | null = null
+function updateEntry(token: string, mutate: (entry: FileEntry) => void): FileEntry | undefined {
+    const entry = storage.get(token)
+    if (!entry) return undefined
+    mutate(entry)
+    storage.put(token, entry)
+    return entry
+}
 
-function saveStore(): void {
-    // Debounce: wait 1s before writing to disk
-    if (saveTimeout) clearTimeout(saveTimeout)
-    saveTimeout = setTimeout(() => {
-        try {
-            // Ensure directory exists
-            const dir = path.dirname(STORE_FILE)
-            if (!fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true })
-            }
-            fs.writeFileSync(STORE_FILE, JSON.stringify(store, null, 2))
-        } catch (error) {
-            console.error('[FileStore] Failed to save store:', error)
-        }
-    }, 1000)
+/**
+ * Write any pending changes immediately (used on shutdown)
+ */
+export function flushStore(): void {
+    storage.flush()
 }
 
 /**
- * Generate a unique token for a file
+ * Generate an unguessable token for a file (128 bits, URL-safe)
  */
 export function generateToken(): string {
-    return Math.random().toString(36).substring(2, 15) + 
-           Math.random().toString(36).substring(2, 15)
+    return crypto.randomBytes(16).toString('base64url')
 }
 
 /**
  * Register a file for streaming (with LRU eviction)
+ * If the owner already registered the same file, that link is refreshed and returned instead
+ * of minting a new one, unless it was revoked. ttlMs of 0 creates a link that never expires.
+ * Indexed channels always get a link per post, so deleting a repost leaves the original's link alone.
  */
-export function registerFile(entry: FileEntry): string {
-    // Evict oldest entries if at limit
-    while (store.order.length >= env.MAX_FILE_ENTRIES) {
-        const oldestToken = store.order.shift()
-        if (oldestToken) {
-            delete store.entries[oldestToken]
-        }
+export function registerFile(
+    info: MediaInfo,
+    ownerId: number,
+    source?: MessageRef,
+    ttlMs: number = env.DEFAULT_LINK_TTL
+): string {
+    const existing = env.INDEX_CHANNELS.includes(ownerId) ? undefined : storage.findByUniqueId(ownerId, info.fileUniqueId)
+    if (existing && !storage.get(existing)?.revoked) {
+        const now = Date.now()
+        updateEntry(existing, entry => {
+            // The new message carries a fresh file reference and outlives the old one
+            entry.fileId = info.fileId
+            entry.fileName = info.fileName
+            entry.caption = info.caption
+            if (source) {
+                entry.chatId = source.chatId
+                entry.messageId = source.messageId
+            }
+            entry.dead = undefined
+            if (ttlMs === 0) {
+                entry.expiresAt = undefined
+            } else if (entry.expiresAt !== undefined) {
+                entry.expiresAt = Math.max(entry.expiresAt, now + ttlMs)
+            }
+        })
+        storage.touch(existing, now)
+        return existing
+    }
+
+    // Evict least recently used entries if at limit (pinned entries are never evicted)
+    while (storage.count() >= env.MAX_FILE_ENTRIES) {
+        if (!storage.evictLeastRecent()) break
     }
     
+    const now = Date.now()
     const token = generateToken()
-    store.entries[token] = entry
-    store.order.push(token)
+    storage.put(token, {
+        ...info,
+        createdAt: now,
+        expiresAt: ttlMs > 0 ? now + ttlMs : undefined,
+        ownerId,
+        chatId: source?.chatId,
+        messageId: source?.messageId,
+    })
     
-    saveStore()
     return token
 }
 
 /**
- * Get file entry by token
+ * Look up a token, including entries that are expired or revoked
+ */
+export function lookupFileEntry(token: string): FileLookup {
+    const entry = storage.get(token)
+    if (!entry) return { status: 'not_found' }
+    if (entry.revoked) return { status: 'revoked', entry }
+    if (entry.dead) return { status: 'dead', entry }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+        return { status: 'expired', entry }
+    }
+    return { status: 'active', entry }
+}
+
+/**
+ * Get file entry by token (only if it is still usable)
+ * Counts as an access for LRU eviction
  */
 export function getFileEntry(token: string): FileEntry | undefined {
-    return store.entries[token]
+    const lookup = lookupFileEntry(token)
+    if (lookup.status !== 'active') return undefined
+    touchFileEntry(token)
+    return lookup.entry
+}
+
+/**
+ * Record an access to a token for LRU eviction
+ */
+export function touchFileEntry(token: string): void {
+    storage.touch(token, Date.now())
+}
+
+/**
+ * Revoke a link permanently
+ * The entry is kept so requests get a 410 instead of a 404
+ */
+export function revokeFile(token: string): boolean {
+    return updateEntry(token, entry => { entry.revoked = true }) !== undefined
+}
+
+/**
+ * Move an entry to a fresh token, so every link to the old one stops working
+ * Returns the new token
+ */
+export function rotateToken(token: string): string | undefined {
+    const entry = storage.get(token)
+    if (!entry) return undefined
+    const newToken = generateToken()
+    storage.put(newToken, entry)
+    storage.delete(token)
+    return newToken
+}
+
+/**
+ * Count a playback that started from the beginning of the file
+ */
+export function recordView(token: string): void {
+    updateEntry(token, entry => { entry.views = (entry.views ?? 0) + 1 })
+}
+
+/**
+ * Add to the bytes served for an entry, once a stream ends
+ */
+export function addBytesServed(token: string, bytes: number): void {
+    if (bytes <= 0) return
+    updateEntry(token, entry => { entry.bytesServed = (entry.bytesServed ?? 0) + bytes })
+}
+
+/**
+ * Pin or unpin an entry; pinned entries are never evicted
+ */
+export function pinFile(token: string, pinned: boolean): boolean {
+    return updateEntry(token, entry => { entry.pinned = pinned || undefined }) !== undefined
+}
+
+/**
+ * Replace an entry's fileId after its file reference was refreshed
+ */
+export function updateFileId(token: string, fileId: string): void {
+    updateEntry(token, entry => { entry.fileId = fileId })
+}
+
+/**
+ * Replace an entry's media after its source message was edited
+ */
+export function updateFileMedia(token: string, info: MediaInfo): void {
+    updateEntry(token, entry => {
+        entry.fileId = info.fileId
+        entry.fileUniqueId = info.fileUniqueId
+        entry.fileName = info.fileName
+        entry.fileSize = info.fileSize
+        entry.mimeType = info.mimeType
+        entry.duration = info.duration
+        entry.caption = info.caption
+        entry.dead = undefined
+    })
+}
+
+/**
+ * Mark an entry as dead because its source message is gone
+ */
+export function markFileDead(token: string): void {
+    updateEntry(token, entry => { entry.dead = true })
+}
+
+/**
+ * Find the token registered for a given source message
+ */
+export function findTokenByMessage(chatId: number, messageId: number): string | undefined {
+    return storage.findByMessage(chatId, messageId)
+}
+
+/**
+ * Link a subtitle file to an entry, returning the track index
+ */
+export function addSubtitle(token: string, track: SubtitleTrack): number | undefined {
+    const entry = updateEntry(token, entry => {
+        entry.subtitles ??= []
+        entry.subtitles.push(track)
+    })
+    return entry ? entry.subtitles!.length - 1 : undefined
+}
+
+/**
+ * Store a subtitle track's fresh fileId after its file reference expired
+ */
+export function updateSubtitleFileId(token: string, index: number, fileId: string): void {
+    updateEntry(token, entry => {
+        const track = entry.subtitles?.[index]
+        if (track) track.fileId = fileId
+    })
+}
+
+/**
+ * Extend a link's lifetime by the given duration
+ * Expired links are extended from now; returns the new expiry
+ */
+export function extendFile(token: string, durationMs: number): number | undefined {
+    const entry = storage.get(token)
+    if (!entry || entry.expiresAt === undefined) return undefined
+    entry.expiresAt = Math.max(entry.expiresAt, Date.now()) + durationMs
+    storage.put(token, entry)
+    return entry.expiresAt
+}
+
+/**
+ * List the most recently registered entries, newest first
+ */
+export function listRecentFiles(limit: number): { token: string; entry: FileEntry }[] {
+    return storage.listRecent(limit).map(([token, entry]) => ({ token, entry }))
+}
+
+/**
+ * List an owner's entries, newest first
+ */
+export function listFilesByOwner(ownerId: number, limit: number, offset = 0): { token: string; entry: FileEntry }[] {
+    return storage.listByOwner(ownerId, limit, offset).map(([token, entry]) => ({ token, entry }))
+}
+
+/**
+ * Search a user's usable entries, and the indexed channels' catalogs, by file name and caption
+ */
+export function searchFiles(userId: number, query: string, limit: number): { token: string; entry: FileEntry }[] {
+    const terms = searchTerms(query)
+    if (terms.length === 0) return []
+    return storage.search([userId, ...env.INDEX_CHANNELS], terms, limit, Date.now())
+        .map(([token, entry]) => ({ token, entry }))
+}
+
+/**
+ * Options for building links
+ */
+export interface LinkOptions extends SignOptions {
+    baseUrl?: string  // Public base URL to build on, defaults to HOST
+}
+
+/**
+ * Get the signed streaming URL for a token
+ */
+export function getStreamUrl(token: string, options?: LinkOptions): string {
+    return `${options?.baseUrl ?? env.HOST}/stream/${token}?${signToken(token, options)}`
 }
 
 /**
- * Get the streaming URL for a token
+ * Get the signed download URL for a token
  */
-export function getStreamUrl(token: string): string {
-    return `${env.HOST}/stream/${token}`
+export function getDownloadUrl(token: string, options?: LinkOptions): string {
+    return `${options?.baseUrl ?? env.HOST}/download/${token}?${signToken(token, options)}`
 }
 
 /**
- * Get the download URL for a token
+ * Get the signed browser player URL for a token
  */
-export function getDownloadUrl(token: string): string {
-    return `${env.HOST}/download/${token}`
+export function getWatchUrl(token: string, options?: LinkOptions): string {
+    return `${options?.baseUrl ?? env.HOST}/watch/${token}?${signToken(token, options)}`
 }
 
 /**
@@ -110,10 +319,8 @@ export function getDownloadUrl(token: string): string {
  */
 export function getStoreStats() {
     return {
-        count: store.order.length,
+        backend: storage.kind,
+        count: storage.count(),
         maxEntries: env.MAX_FILE_ENTRIES,
     }
 }
-
-// Load store on module initialization
-loadStore()
@@ -0,0 +1,50 @@
+import net from 'node:net'
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix (::ffff:1.2.3.4 -> 1.2.3.4)
+ */
+export function normalizeIP(ip: string): string {
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+    return mapped ? mapped[1] : ip
+}
+
+/**
+ * Check whether a string is a valid IP address or CIDR range
+ */
+export function isValidCidr(value: string): boolean {
+    const [address, prefix] = value.split('/')
+    const family = net.isIP(address)
+    if (!family) return false
+    if (prefix === undefined) return true
+    const bits = Number(prefix)
+    return Number.isInteger(bits) && bits >= 0 && bits <= (family === 4 ? 32 : 128)
+}
+
+/**
+ * Build a BlockList from IP addresses and CIDR ranges
+ * Invalid entries are ignored
+ */
+export function createIPMatcher(ranges: string[]): net.BlockList {
+    const list = new net.BlockList()
+    for (const range of ranges) {
+        if (!isValidCidr(range)) continue
+        const [address, prefix] = range.split('/')
+        const type = net.isIPv4(address) ? 'ipv4' : 'ipv6'
+        if (prefix === undefined) {
+            list.addAddress(address, type)
+        } else {
+            list.addSubnet(address, Number(prefix), type)
+        }
+    }
+    return list
+}
+
+/**
+ * Check whether an IP address falls inside the given matcher
+ */
+export function matchesIP(matcher: net.BlockList, ip: string): boolean {
+    const address = normalizeIP(ip)
+    const family = net.isIP(address)
+    if (!family) return false
+    return matcher.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
@@ -0,0 +1,115 @@
+/**
+ * Minimal Prometheus metrics registry (text exposition format 0.0.4)
+ */
+
+type Labels = Record<string, string>
+
+interface Metric {
+    render(): string
+}
+
+const registry: Metric[] = []
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels)
+    if (pairs.length === 0) return ''
+    const body = pairs
+        .map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+        .join(',')
+    return `{${body}}`
+}
+
+function header(name: string, help: string, type: string): string {
+    return `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`
+}
+
+/**
+ * Monotonic counter, optionally split by labels
+ */
+export class Counter implements Metric {
+    private readonly values = new Map<string, { labels: Labels; value: number }>()
+
+    constructor(private readonly name: string, private readonly help: string) {
+        registry.push(this)
+    }
+
+    inc(labels: Labels = {}, value = 1): void {
+        const key = formatLabels(labels)
+        const current = this.values.get(key)
+        if (current) {
+            current.value += value
+        } else {
+            this.values.set(key, { labels, value })
+        }
+    }
+
+    render(): string {
+        let out = header(this.name, this.help, 'counter')
+        for (const [key, { value }] of this.values) {
+            out += `${this.name}${key} ${value}\n`
+        }
+        return out
+    }
+}
+
+/**
+ * Gauge whose value is read when metrics are scraped
+ * Pass type 'counter' to expose a monotonic value tracked elsewhere
+ */
+export class Gauge implements Metric {
+    constructor(
+        private readonly name: string,
+        private readonly help: string,
+        private readonly collect: () => number | Array<[Labels, number]>,
+        private readonly type: 'gauge' | 'counter' = 'gauge'
+    ) {
+        registry.push(this)
+    }
+
+    render(): string {
+        const value = this.collect()
+        const samples = typeof value === 'number' ? [[{}, value] as [Labels, number]] : value
+        return header(this.name, this.help, this.type)
+            + samples.map(([labels, v]) => `${this.name}${formatLabels(labels)} ${v}\n`).join('')
+    }
+}
+
+/**
+ * Histogram with fixed buckets (no labels)
+ */
+export class Histogram implements Metric {
+    private readonly counts: number[]
+    private sum = 0
+    private count = 0
+
+    constructor(private readonly name: string, private readonly help: string, private readonly buckets: number[]) {
+        this.counts = buckets.map(() => 0)
+        registry.push(this)
+    }
+
+    observe(value: number): void {
+        this.sum += value
+        this.count++
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) this.counts[i]++
+        })
+    }
+
+    render(): string {
+        let out = header(this.name, this.help, 'histogram')
+        this.buckets.forEach((bound, i) => {
+            out += `${this.name}_bucket{le="${bound}"} ${this.counts[i]}\n`
+        })
+        out += `${this.name}_bucket{le="+Inf"} ${this.count}\n`
+        out += `${this.name}_sum ${this.sum}\n`
+        out += `${this.name}_count ${this.count}\n`
+        return out
+    }
+}
+
+/**
+ * Render every registered metric
+ */
+export function renderMetrics(): string {
+    return registry.map(metric => metric.render()).join('')
+}
@@ -7,3 +7,13 @@ export function getMimeType(fileName: string): string {
     const ext = fileName.split('.').pop()?.toLowerCase() || ''
     return MIME_TYPES[ext] || DEFAULT_MIME_TYPE
 }
+
+/**
+ * Build a Content-Disposition header with an ASCII fallback and an RFC 5987 filename*
+ */
+export function getContentDisposition(type: 'inline' | 'attachment', fileName: string): string {
+    const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_')
+    const encoded = encodeURIComponent(fileName)
+        .replace(/['()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase())
+    return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
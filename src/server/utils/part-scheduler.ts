@@ -0,0 +1,220 @@
+import { tl, type TelegramClient } from '@mtcute/node'
+import { ALIGN_LARGE_FILE, READAHEAD_PARTS } from '../../config/constants.js'
+import { readCachedPart, writeCachedPart } from './chunk-cache.js'
+import { isFileReferenceError } from './file-refresh.js'
+import { telegramErrors } from './stream-metrics.js'
+import type { ByteRange } from './range.js'
+
+/**
+ * Shared download fan-out
+ * Files are fetched in ALIGN_LARGE_FILE-sized parts. Concurrent requests for the same
+ * part (VLC opens 2-3 connections per file) share one in-flight Telegram fetch, and each
+ * HTTP response pulls parts at its own pace, so backpressure stays per-response.
+ * Parts found in the on-disk chunk cache are served without touching Telegram.
+ */
+
+const PART_SIZE = ALIGN_LARGE_FILE
+
+interface InFlightPart {
+    promise: Promise<Buffer>
+    controller: AbortController
+    waiters: number
+}
+
+const inFlight = new Map<string, InFlightPart>()
+
+let partsFetched = 0
+let partsShared = 0
+
+/**
+ * Identifies a file's content for sharing parts between tokens
+ */
+export interface PartSource {
+    fileKey: string   // fileUniqueId when known, otherwise fileId
+    fileId: string
+    // Resolve a fresh fileId when the file reference expires (rejects if the file is gone)
+    refreshFileId?: () => Promise<string>
+}
+
+/**
+ * Download a single part from Telegram
+ * downloadAsIterable starts several workers at once, so the throttle lets only the first
+ * request through and holds the rest until this call's own controller is aborted, which
+ * happens as soon as our part has arrived (or the caller gives up)
+ */
+async function downloadPart(tg: TelegramClient, fileId: string, index: number, signal: AbortSignal): Promise<Buffer> {
+    const controller = new AbortController()
+    const onAbort = () => controller.abort(signal.reason)
+    if (signal.aborted) onAbort()
+    else signal.addEventListener('abort', onAbort, { once: true })
+
+    let issued = false
+    const throttle = () => {
+        if (!issued) {
+            issued = true
+            return Promise.resolve()
+        }
+        if (controller.signal.aborted) return Promise.resolve()
+        return new Promise<void>(resolve => controller.signal.addEventListener('abort', () => resolve(), { once: true }))
+    }
+
+    try {
+        const iterable = tg.downloadAsIterable(fileId, {
+            offset: index * PART_SIZE,
+            partSize: PART_SIZE / 1024,
+            abortSignal: controller.signal,
+            throttle,
+        })
+
+        for await (const chunk of iterable) {
+            return Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+        }
+        return Buffer.alloc(0)  // Past end of file
+    } finally {
+        // Release the held workers and stop following the caller's signal
+        signal.removeEventListener('abort', onAbort)
+        controller.abort()
+    }
+}
+
+/**
+ * Short error label for metrics (RPC error text with numeric arguments stripped)
+ */
+function errorType(error: unknown): string {
+    if (tl.RpcError.is(error)) return error.text.replace(/_\d+/g, '')
+    return (error as Error)?.name || 'Error'
+}
+
+/**
+ * Load a part from the disk cache, or download it and cache the result
+ */
+async function loadPart(tg: TelegramClient, source: PartSource, index: number, signal: AbortSignal): Promise<Buffer> {
+    const cached = await readCachedPart(source.fileKey, index)
+    if (cached) return cached
+
+    let part: Buffer
+    try {
+        part = await downloadPart(tg, source.fileId, index, signal)
+    } catch (error) {
+        if (!signal.aborted) telegramErrors.inc({ type: errorType(error) })
+        if (!source.refreshFileId || !isFileReferenceError(error)) throw error
+        const fileId = await source.refreshFileId()
+        source.fileId = fileId
+        part = await downloadPart(tg, fileId, index, signal)
+    }
+
+    void writeCachedPart(source.fileKey, index, part)
+    return part
+}
+
+/**
+ * Fetch one aligned part, joining an in-flight fetch for the same part if there is one
+ * The shared fetch is aborted only once every waiter has gone away
+ */
+export function fetchPart(tg: TelegramClient, source: PartSource, index: number, signal: AbortSignal): Promise<Buffer> {
+    if (signal.aborted) return Promise.reject(signal.reason)
+
+    const key = `${source.fileKey}:${index}`
+    let part = inFlight.get(key)
+    if (part) {
+        partsShared++
+    } else {
+        const controller = new AbortController()
+        const entry: InFlightPart = {
+            promise: loadPart(tg, source, index, controller.signal),
+            controller,
+            waiters: 0,
+        }
+        entry.promise
+            .finally(() => {
+                if (inFlight.get(key) === entry) inFlight.delete(key)
+            })
+            .catch(() => {})
+        inFlight.set(key, entry)
+        partsFetched++
+        part = entry
+    }
+
+    const entry = part
+    entry.waiters++
+
+    return new Promise<Buffer>((resolve, reject) => {
+        let released = false
+        const release = () => {
+            if (released) return
+            released = true
+            signal.removeEventListener('abort', onAbort)
+            entry.waiters--
+        }
+        const onAbort = () => {
+            release()
+            if (entry.waiters === 0 && inFlight.get(key) === entry) {
+                inFlight.delete(key)
+                entry.controller.abort()
+            }
+            reject(signal.reason)
+        }
+        signal.addEventListener('abort', onAbort, { once: true })
+
+        entry.promise.then(
+            (buf) => { release(); resolve(buf) },
+            (err) => { release(); reject(err) },
+        )
+    })
+}
+
+/**
+ * Read an inclusive byte range as a sequence of buffers
+ * Keeps up to READAHEAD_PARTS parts in flight ahead of the part being written
+ */
+export async function* readRange(
+    tg: TelegramClient,
+    source: PartSource,
+    range: ByteRange,
+    signal: AbortSignal
+): AsyncGenerator<Buffer> {
+    if (range.end < range.start) return
+
+    const firstPart = Math.floor(range.start / PART_SIZE)
+    const lastPart = Math.floor(range.end / PART_SIZE)
+
+    // Each range gets its own controller so finishing one range releases its readahead
+    const rangeController = new AbortController()
+    const onAbort = () => rangeController.abort()
+    signal.addEventListener('abort', onAbort)
+
+    const pending: Promise<Buffer>[] = []
+    let nextPart = firstPart
+
+    try {
+        for (let index = firstPart; index <= lastPart; index++) {
+            while (pending.length <= READAHEAD_PARTS && nextPart <= lastPart) {
+                const promise = fetchPart(tg, source, nextPart++, rangeController.signal)
+                promise.catch(() => {})  // Rejections are observed when the part is awaited
+                pending.push(promise)
+            }
+
+            const part = await pending.shift()!
+            const partStart = index * PART_SIZE
+            const from = index === firstPart ? range.start - partStart : 0
+            const to = index === lastPart ? range.end - partStart + 1 : part.length
+            if (from >= part.length) return  // Past end of file
+
+            yield part.subarray(from, Math.min(to, part.length))
+        }
+    } finally {
+        signal.removeEventListener('abort', onAbort)
+        rangeController.abort()
+    }
+}
+
+/**
+ * Get fan-out stats for monitoring
+ */
+export function getPartSchedulerStats() {
+    return {
+        inFlightParts: inFlight.size,
+        partsFetched,
+        partsShared,
+    }
+}
@@ -0,0 +1,131 @@
+import net from 'node:net'
+import type http from 'node:http'
+import { env } from '../../config/env.js'
+import { createIPMatcher, matchesIP, normalizeIP } from './ip.js'
+
+/**
+ * Client address and public origin behind reverse proxies
+ * Forwarded headers are only believed when the connecting peer is in TRUSTED_PROXIES,
+ * since anyone can send them.
+ */
+
+const trustedProxies = createIPMatcher(env.TRUSTED_PROXIES)
+
+function isTrusted(ip: string): boolean {
+    return env.TRUSTED_PROXIES.length > 0 && matchesIP(trustedProxies, ip)
+}
+
+/**
+ * Join a header that may have been sent more than once
+ */
+function headerValue(req: http.IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name]
+    return Array.isArray(value) ? value.join(',') : value
+}
+
+/**
+ * Strip the brackets and port from a node address ("[::1]:80" -> "::1", "1.2.3.4:80" -> "1.2.3.4")
+ */
+function stripPort(value: string): string {
+    const bracketed = value.match(/^\[([^\]]+)\](?::\d+)?$/)
+    if (bracketed) return bracketed[1]
+    const v4 = value.match(/^(\d+\.\d+\.\d+\.\d+):\d+$/)
+    return v4 ? v4[1] : value
+}
+
+/**
+ * Parse an RFC 7239 Forwarded header into one parameter map per hop, client first
+ * e.g. `for=192.0.2.60;proto=https, for="[2001:db8::17]:4711"`
+ */
+function parseForwarded(header: string): Record<string, string>[] {
+    return header.split(',').map(element => {
+        const params: Record<string, string> = {}
+        for (const pair of element.split(';')) {
+            const eq = pair.indexOf('=')
+            if (eq === -1) continue
+            const key = pair.slice(0, eq).trim().toLowerCase()
+            params[key] = pair.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1')
+        }
+        return params
+    })
+}
+
+/**
+ * First value of a comma-separated header
+ */
+function firstValue(req: http.IncomingMessage, name: string): string | undefined {
+    return headerValue(req, name)?.split(',')[0]?.trim() || undefined
+}
+
+/**
+ * Client addresses from the forwarding headers, client first
+ * Forwarded takes precedence over X-Forwarded-For, which takes precedence over X-Real-IP
+ */
+function getForwardedFor(req: http.IncomingMessage): string[] {
+    const forwarded = headerValue(req, 'forwarded')
+    if (forwarded) return parseForwarded(forwarded).map(hop => stripPort(hop.for ?? ''))
+
+    const xff = headerValue(req, 'x-forwarded-for')
+    if (xff) return xff.split(',').map(ip => stripPort(ip.trim()))
+
+    const realIP = headerValue(req, 'x-real-ip')?.trim()
+    return realIP ? [stripPort(realIP)] : []
+}
+
+/**
+ * Protocol and host of the original request, as reported by the proxy
+ */
+function getForwardedOrigin(req: http.IncomingMessage): { proto?: string; host?: string } {
+    const forwarded = headerValue(req, 'forwarded')
+    if (forwarded) {
+        const hops = parseForwarded(forwarded)
+        return {
+            proto: hops.find(hop => hop.proto)?.proto,
+            host: hops.find(hop => hop.host)?.host,
+        }
+    }
+    return {
+        proto: firstValue(req, 'x-forwarded-proto'),
+        host: firstValue(req, 'x-forwarded-host'),
+    }
+}
+
+/**
+ * Get the client's IP address
+ * Walks the forwarding chain right to left from the peer, stopping at the first hop
+ * that isn't a trusted proxy. Without trusted proxies this is the socket address.
+ */
+export function getClientIP(req: http.IncomingMessage): string {
+    let client = normalizeIP(req.socket.remoteAddress || 'unknown')
+    if (!isTrusted(client)) return client
+
+    const chain = getForwardedFor(req)
+    for (let i = chain.length - 1; i >= 0; i--) {
+        const hop = normalizeIP(chain[i])
+        // Obfuscated or malformed hop ("unknown", "_hidden"): the last address we trust is the best we have
+        if (!net.isIP(hop)) break
+        client = hop
+        if (!isTrusted(hop)) break
+    }
+    return client
+}
+
+/**
+ * Get the public base URL (e.g. "https://tv.example.com") for links built while handling a request
+ * Uses the proto and host a trusted proxy received, falling back to HOST
+ */
+export function getPublicBaseUrl(req: http.IncomingMessage): string {
+    const peer = normalizeIP(req.socket.remoteAddress || '')
+    if (!isTrusted(peer)) return env.HOST
+
+    const fallback = new URL(env.HOST)
+    const forwarded = getForwardedOrigin(req)
+    const proto = forwarded.proto?.toLowerCase() === 'http' || forwarded.proto?.toLowerCase() === 'https'
+        ? forwarded.proto.toLowerCase()
+        : fallback.protocol.slice(0, -1)
+    const host = forwarded.host && /^(\[[0-9a-f:.]+\]|[a-z0-9.-]+)(:\d+)?$/i.test(forwarded.host)
+        ? forwarded.host
+        : fallback.host
+    // Keep any path prefix HOST was configured with
+    return `${proto}://${host}${fallback.pathname.replace(/\/$/, '')}`
+}
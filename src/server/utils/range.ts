@@ -0,0 +1,131 @@
+/**
+ * RFC 7233 byte range handling
+ * Parses Range headers (including suffix and multi-range requests),
+ * evaluates If-Range and lays out multipart/byteranges bodies
+ */
+
+// Larger range sets are ignored and served as a full response (RFC 7233 §3.1 allows this)
+const MAX_RANGES = 16
+
+/**
+ * Inclusive byte range
+ */
+export interface ByteRange {
+    start: number
+    end: number
+}
+
+/**
+ * Outcome of parsing a Range header against a representation size
+ */
+export type RangeResult =
+    | { type: 'none' }
+    | { type: 'ranges'; ranges: ByteRange[] }
+    | { type: 'unsatisfiable' }
+
+/**
+ * Parse a Range header
+ * Malformed headers and non-byte units are ignored (full response), as required by the RFC
+ */
+export function parseRange(header: string | undefined, size: number): RangeResult {
+    if (!header) return { type: 'none' }
+
+    const match = header.match(/^\s*bytes\s*=\s*(.+)$/i)
+    if (!match) return { type: 'none' }
+
+    const specs = match[1].split(',').map(spec => spec.trim()).filter(Boolean)
+    if (specs.length === 0 || specs.length > MAX_RANGES) return { type: 'none' }
+
+    const ranges: ByteRange[] = []
+    for (const spec of specs) {
+        const parts = spec.match(/^(\d*)\s*-\s*(\d*)$/)
+        if (!parts || (!parts[1] && !parts[2])) return { type: 'none' }
+
+        if (!parts[1]) {
+            // Suffix range: last N bytes
+            const suffix = parseInt(parts[2], 10)
+            if (suffix === 0 || size === 0) continue
+            ranges.push({ start: Math.max(0, size - suffix), end: size - 1 })
+            continue
+        }
+
+        const start = parseInt(parts[1], 10)
+        const end = parts[2] ? parseInt(parts[2], 10) : Infinity
+        if (end < start) return { type: 'none' }
+        if (start >= size) continue
+        ranges.push({ start, end: Math.min(end, size - 1) })
+    }
+
+    if (ranges.length === 0) return { type: 'unsatisfiable' }
+    return { type: 'ranges', ranges: coalesceRanges(ranges) }
+}
+
+/**
+ * Merge overlapping and adjacent ranges; the result is sorted by start offset
+ */
+function coalesceRanges(ranges: ByteRange[]): ByteRange[] {
+    if (ranges.length === 1) return ranges
+    const sorted = [...ranges].sort((a, b) => a.start - b.start)
+    const merged: ByteRange[] = [{ ...sorted[0] }]
+    for (const range of sorted.slice(1)) {
+        const last = merged[merged.length - 1]
+        if (range.start <= last.end + 1) {
+            last.end = Math.max(last.end, range.end)
+        } else {
+            merged.push({ ...range })
+        }
+    }
+    return merged
+}
+
+/**
+ * Check If-Range: the range applies only if the validator still matches
+ * ETags must match strongly; dates must match Last-Modified exactly
+ */
+export function isRangeFresh(ifRange: string | undefined, etag: string, lastModified: string): boolean {
+    if (!ifRange) return true
+    const value = ifRange.trim()
+    if (value.startsWith('"') || value.startsWith('W/')) {
+        return !value.startsWith('W/') && value === etag
+    }
+    const date = Date.parse(value)
+    return !isNaN(date) && date === Date.parse(lastModified)
+}
+
+/**
+ * Format a Content-Range header value
+ */
+export function formatContentRange(range: ByteRange, size: number): string {
+    return `bytes ${range.start}-${range.end}/${size}`
+}
+
+/**
+ * Pre-rendered framing for a multipart/byteranges body
+ */
+export interface MultipartLayout {
+    boundary: string
+    partHeaders: string[]
+    trailer: string
+    contentLength: number
+}
+
+/**
+ * Build the part headers and total length of a multipart/byteranges response
+ */
+export function createMultipartLayout(
+    ranges: ByteRange[],
+    contentType: string,
+    size: number,
+    boundary: string
+): MultipartLayout {
+    const partHeaders = ranges.map((range, i) =>
+        `${i === 0 ? '' : '\r\n'}--${boundary}\r\n` +
+        `Content-Type: ${contentType}\r\n` +
+        `Content-Range: ${formatContentRange(range, size)}\r\n\r\n`
+    )
+    const trailer = `\r\n--${boundary}--\r\n`
+    const contentLength = partHeaders.reduce((sum, header) => sum + Buffer.byteLength(header), 0)
+        + ranges.reduce((sum, range) => sum + range.end - range.start + 1, 0)
+        + Buffer.byteLength(trailer)
+    return { boundary, partHeaders, trailer, contentLength }
+}
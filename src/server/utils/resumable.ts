@@ -0,0 +1,113 @@
+import { tl, MtTimeoutError } from '@mtcute/node'
+import { STREAM_MAX_RETRIES, STREAM_RETRY_BASE_DELAY, STREAM_RETRY_MAX_DELAY, MAX_FLOOD_WAIT } from '../../config/constants.js'
+import { streamLogger } from '../../utils/logger.js'
+import type { ByteRange } from './range.js'
+
+/**
+ * Resumable range reads
+ * Transient Telegram/network errors restart the source from the next undelivered byte
+ * (the source re-aligns internally), so the HTTP response keeps going instead of truncating.
+ */
+
+// Node socket errors that indicate a dropped connection rather than a bad request
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'ECONNREFUSED', 'ENETUNREACH', 'EAI_AGAIN'])
+
+/**
+ * Decide whether an error is worth retrying, and how long to wait first
+ * Returns null for errors that should end the stream
+ */
+function classifyError(error: unknown, attempt: number): { kind: string; delayMs: number } | null {
+    const backoff = Math.min(STREAM_RETRY_BASE_DELAY * 2 ** attempt, STREAM_RETRY_MAX_DELAY)
+
+    if (tl.RpcError.is(error)) {
+        if (error.is('FLOOD_WAIT_%d')) {
+            const waitMs = error.seconds * 1000
+            return waitMs <= MAX_FLOOD_WAIT ? { kind: error.text, delayMs: waitMs } : null
+        }
+        // DC migration (303) and server-side failures (500, -503 timeouts)
+        if (error.code === tl.RpcError.SEE_OTHER || error.code === tl.RpcError.INTERNAL || error.code === -503) {
+            return { kind: error.text, delayMs: backoff }
+        }
+        return null
+    }
+
+    if (error instanceof MtTimeoutError) {
+        return { kind: 'timeout', delayMs: backoff }
+    }
+
+    const code = (error as NodeJS.ErrnoException | null)?.code
+    if (code && NETWORK_ERROR_CODES.has(code)) {
+        return { kind: code, delayMs: backoff }
+    }
+
+    return null
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) return reject(signal.reason)
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(signal.reason)
+        }
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        signal.addEventListener('abort', onAbort, { once: true })
+    })
+}
+
+/**
+ * Retry budget shared by all ranges of one HTTP response
+ */
+export interface RetryBudget {
+    token: string
+    retriesLeft: number
+}
+
+/**
+ * Create a retry budget for one response
+ */
+export function createRetryBudget(token: string): RetryBudget {
+    return { token, retriesLeft: STREAM_MAX_RETRIES }
+}
+
+/**
+ * Read a range, reopening the source from the last delivered byte after transient errors
+ */
+export async function* readResumable(
+    open: (range: ByteRange) => AsyncIterable<Buffer>,
+    range: ByteRange,
+    signal: AbortSignal,
+    budget: RetryBudget
+): AsyncGenerator<Buffer> {
+    let position = range.start
+    let attempt = 0
+
+    while (true) {
+        try {
+            for await (const chunk of open({ start: position, end: range.end })) {
+                position += chunk.length
+                attempt = 0  // Progress resets the backoff, not the budget
+                yield chunk
+            }
+            return
+        } catch (error) {
+            if (signal.aborted) throw error
+
+            const retry = classifyError(error, attempt)
+            if (!retry || budget.retriesLeft <= 0) throw error
+
+            budget.retriesLeft--
+            attempt++
+            streamLogger.warn(`Retrying after ${retry.kind}`, {
+                token: budget.token.slice(0, 8),
+                position,
+                delayMs: retry.delayMs,
+                retriesLeft: budget.retriesLeft,
+            })
+            await sleep(retry.delayMs, signal)
+        }
+    }
+}
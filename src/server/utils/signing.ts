@@ -0,0 +1,112 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import { env } from '../../config/env.js'
+import { createIPMatcher, matchesIP } from './ip.js'
+
+/**
+ * HMAC signing for stream URLs
+ * A signature covers the token, an optional expiry and an optional client IP/subnet,
+ * so short-lived per-viewer links can be minted for one file entry
+ */
+
+const SECRET_FILE = path.join(process.cwd(), 'bot-data', 'link-secret')
+
+const SECRET_BYTES = 32
+
+let secret: Buffer
+
+/**
+ * Load the signing secret from env, or from a generated file in bot-data
+ * Persisting the generated secret keeps existing links valid across restarts.
+ * A stored secret that isn't exactly SECRET_BYTES of hex (empty, truncated, edited) would
+ * make links weak or forgeable, so it is replaced.
+ */
+function loadSecret(): void {
+    if (env.LINK_SECRET !== undefined) {
+        secret = Buffer.from(env.LINK_SECRET, 'utf8')
+        return
+    }
+    try {
+        if (fs.existsSync(SECRET_FILE)) {
+            const stored = fs.readFileSync(SECRET_FILE, 'utf8').trim()
+            if (/^[0-9a-f]+$/i.test(stored) && stored.length === SECRET_BYTES * 2) {
+                secret = Buffer.from(stored, 'hex')
+                return
+            }
+            console.warn('[Signing] bot-data/link-secret is not a valid secret, generating a new one (existing links stop working)')
+        }
+        secret = crypto.randomBytes(SECRET_BYTES)
+        fs.mkdirSync(path.dirname(SECRET_FILE), { recursive: true })
+        fs.writeFileSync(SECRET_FILE, secret.toString('hex'), { mode: 0o600 })
+        console.log('[Signing] Generated new link secret in bot-data/link-secret')
+    } catch (error) {
+        console.warn('[Signing] Failed to persist link secret, links will not survive restarts:', error)
+        secret ??= crypto.randomBytes(SECRET_BYTES)
+    }
+}
+
+/**
+ * Options for binding a signed link
+ */
+export interface SignOptions {
+    expiresAt?: number  // Unix ms
+    ip?: string         // Single IP or CIDR range
+}
+
+/**
+ * Result of verifying a signed link
+ */
+export type SignatureCheck =
+    | { valid: true }
+    | { valid: false; reason: 'missing' | 'invalid' | 'expired' | 'ip_mismatch' }
+
+function computeSignature(token: string, exp: string, ip: string): string {
+    return crypto
+        .createHmac('sha256', secret)
+        .update(`${token}\n${exp}\n${ip}`)
+        .digest('base64url')
+        .slice(0, 32)
+}
+
+/**
+ * Build the query string for a signed link
+ */
+export function signToken(token: string, options: SignOptions = {}): string {
+    const params = new URLSearchParams()
+    const exp = options.expiresAt ? String(Math.floor(options.expiresAt / 1000)) : ''
+    const ip = options.ip || ''
+    if (exp) params.set('exp', exp)
+    if (ip) params.set('ip', ip)
+    params.set('sig', computeSignature(token, exp, ip))
+    return params.toString()
+}
+
+/**
+ * Verify the signature query parameters of a request against the client IP
+ */
+export function verifySignature(token: string, params: URLSearchParams, clientIP: string): SignatureCheck {
+    const sig = params.get('sig')
+    if (!sig) return { valid: false, reason: 'missing' }
+
+    const exp = params.get('exp') || ''
+    const ip = params.get('ip') || ''
+    const expected = Buffer.from(computeSignature(token, exp, ip))
+    const actual = Buffer.from(sig)
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+        return { valid: false, reason: 'invalid' }
+    }
+
+    if (exp && Number(exp) * 1000 <= Date.now()) {
+        return { valid: false, reason: 'expired' }
+    }
+
+    if (ip && !matchesIP(createIPMatcher([ip]), clientIP)) {
+        return { valid: false, reason: 'ip_mismatch' }
+    }
+
+    return { valid: true }
+}
+
+// Load secret on module initialization
+loadSecret()
@@ -0,0 +1,38 @@
+import { Counter, Histogram } from './metrics.js'
+
+/**
+ * Event metrics recorded along the streaming path
+ * Point-in-time gauges (active streams, store size, memory) are collected at scrape time in the server
+ */
+
+export const rateLimitRejections = new Counter(
+    'tgflix_rate_limit_rejections_total',
+    'Stream requests rejected by rate limits, by reason'
+)
+
+export const admissionWait = new Histogram(
+    'tgflix_admission_wait_seconds',
+    'Time queued requests waited for a stream slot, admitted or not',
+    [0.1, 0.25, 0.5, 1, 2, 5, 10, 30]
+)
+
+export const bytesStreamed = new Counter(
+    'tgflix_bytes_streamed_total',
+    'Response body bytes sent to clients'
+)
+
+export const timeToFirstByte = new Histogram(
+    'tgflix_time_to_first_byte_seconds',
+    'Time from request to first body byte',
+    [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30]
+)
+
+export const stallKills = new Counter(
+    'tgflix_stall_timeouts_total',
+    'Streams killed because the client stopped reading'
+)
+
+export const telegramErrors = new Counter(
+    'tgflix_telegram_download_errors_total',
+    'Telegram download errors, by error type'
+)
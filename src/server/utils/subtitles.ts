@@ -0,0 +1,38 @@
+/**
+ * Subtitle helpers for the browser player
+ * Browsers only accept WebVTT in <track>, so SRT files are converted on the fly
+ */
+
+const SUBTITLE_EXTENSIONS = ['srt', 'vtt']
+
+/**
+ * Check whether a file name looks like a supported subtitle file
+ */
+export function isSubtitleFile(fileName: string): boolean {
+    const ext = fileName.split('.').pop()?.toLowerCase() || ''
+    return SUBTITLE_EXTENSIONS.includes(ext)
+}
+
+/**
+ * Guess a language code from names like "Movie.en.srt" or "Movie.eng.srt"
+ */
+export function guessSubtitleLang(fileName: string): string | undefined {
+    const parts = fileName.toLowerCase().split('.')
+    const candidate = parts.length >= 3 ? parts[parts.length - 2] : ''
+    return /^[a-z]{2,3}$/.test(candidate) ? candidate : undefined
+}
+
+/**
+ * Convert subtitle text to WebVTT (SRT timestamps use a comma before milliseconds)
+ */
+export function toWebVTT(text: string, fileName: string): string {
+    const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+    if (fileName.toLowerCase().endsWith('.vtt') || normalized.startsWith('WEBVTT')) {
+        return normalized
+    }
+    const cues = normalized.replace(
+        /(\d{2}:\d{2}:\d{2}),(\d{3})\s*-->\s*(\d{2}:\d{2}:\d{2}),(\d{3})/g,
+        '$1.$2 --> $3.$4'
+    )
+    return `WEBVTT\n\n${cues}`
+}
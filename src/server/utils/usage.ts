@@ -0,0 +1,176 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { env } from '../../config/env.js'
+import { streamLogger } from '../../utils/logger.js'
+
+/**
+ * Per-user bandwidth accounting
+ * Bytes served on a link are attributed to the user who registered it, bucketed
+ * by UTC day and month, and saved to bot-data/usage.json (debounced).
+ */
+
+const USAGE_FILE = path.join(process.cwd(), 'bot-data', 'usage.json')
+const DAILY_QUOTA = env.DAILY_QUOTA_MB * 1024 * 1024
+const MONTHLY_QUOTA = env.MONTHLY_QUOTA_MB * 1024 * 1024
+
+interface UserUsage {
+    day: string          // UTC date, YYYY-MM-DD
+    dayBytes: number
+    month: string        // UTC month, YYYY-MM
+    monthBytes: number
+    totalBytes: number
+}
+
+/**
+ * Result of a quota check
+ */
+export interface QuotaResult {
+    allowed: boolean
+    reason?: string
+    retryAfter?: number  // Seconds until the exhausted quota resets
+}
+
+const usage = new Map<number, UserUsage>()
+let saveTimeout: ReturnType<typeof setTimeout> | null = null
+
+function currentDay(now = new Date()): string {
+    return now.toISOString().slice(0, 10)
+}
+
+function currentMonth(now = new Date()): string {
+    return now.toISOString().slice(0, 7)
+}
+
+/**
+ * Seconds until the next UTC midnight, or the first of next month
+ */
+function secondsUntilReset(period: 'day' | 'month', now = new Date()): number {
+    const reset = period === 'day'
+        ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+        : Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+    return Math.ceil((reset - now.getTime()) / 1000)
+}
+
+function formatMB(bytes: number): string {
+    return `${Math.round(bytes / 1024 / 1024)} MB`
+}
+
+function load(): void {
+    try {
+        if (!fs.existsSync(USAGE_FILE)) return
+        const data: Record<string, UserUsage> = JSON.parse(fs.readFileSync(USAGE_FILE, 'utf8'))
+        for (const [userId, entry] of Object.entries(data)) {
+            usage.set(Number(userId), entry)
+        }
+        streamLogger.info(`Usage: loaded accounting for ${usage.size} users`)
+    } catch (error) {
+        streamLogger.warn('Usage: failed to load, starting fresh', { error })
+    }
+}
+
+/**
+ * Write usage to disk atomically (temp file + rename)
+ */
+function write(): void {
+    try {
+        fs.mkdirSync(path.dirname(USAGE_FILE), { recursive: true })
+        const tempFile = `${USAGE_FILE}.${process.pid}.tmp`
+        fs.writeFileSync(tempFile, JSON.stringify(Object.fromEntries(usage), null, 2))
+        fs.renameSync(tempFile, USAGE_FILE)
+    } catch (error) {
+        streamLogger.error('Usage: failed to save', { error })
+    }
+}
+
+/**
+ * Save usage to disk (debounced, bytes arrive on every chunk)
+ */
+function save(): void {
+    if (saveTimeout) return
+    saveTimeout = setTimeout(() => {
+        saveTimeout = null
+        write()
+    }, 5000)
+}
+
+/**
+ * Get a user's record, starting new buckets when the day or month has rolled over
+ */
+function getRecord(userId: number): UserUsage {
+    const day = currentDay()
+    const month = currentMonth()
+    // Users with no usage yet get a blank record, stored on their first bytes
+    const record = usage.get(userId) ?? { day, dayBytes: 0, month, monthBytes: 0, totalBytes: 0 }
+    if (record.day !== day) {
+        record.day = day
+        record.dayBytes = 0
+    }
+    if (record.month !== month) {
+        record.month = month
+        record.monthBytes = 0
+    }
+    return record
+}
+
+/**
+ * Attribute bytes served to a user
+ */
+export function recordUsage(userId: number, bytes: number): void {
+    const record = getRecord(userId)
+    usage.set(userId, record)
+    record.dayBytes += bytes
+    record.monthBytes += bytes
+    record.totalBytes += bytes
+    save()
+}
+
+/**
+ * Get a user's consumption and quotas (0 = unlimited)
+ */
+export function getUsage(userId: number) {
+    const record = getRecord(userId)
+    return {
+        daily: record.dayBytes,
+        monthly: record.monthBytes,
+        total: record.totalBytes,
+        dailyQuota: DAILY_QUOTA,
+        monthlyQuota: MONTHLY_QUOTA,
+        dailyResetsIn: secondsUntilReset('day'),
+        monthlyResetsIn: secondsUntilReset('month'),
+    }
+}
+
+/**
+ * Check whether a user still has quota left for new streams
+ */
+export function checkQuota(userId: number): QuotaResult {
+    const record = getRecord(userId)
+    if (MONTHLY_QUOTA > 0 && record.monthBytes >= MONTHLY_QUOTA) {
+        return {
+            allowed: false,
+            reason: `Monthly quota exceeded: ${formatMB(record.monthBytes)}/${formatMB(MONTHLY_QUOTA)}`,
+            retryAfter: secondsUntilReset('month'),
+        }
+    }
+    if (DAILY_QUOTA > 0 && record.dayBytes >= DAILY_QUOTA) {
+        return {
+            allowed: false,
+            reason: `Daily quota exceeded: ${formatMB(record.dayBytes)}/${formatMB(DAILY_QUOTA)}`,
+            retryAfter: secondsUntilReset('day'),
+        }
+    }
+    return { allowed: true }
+}
+
+/**
+ * Write pending usage immediately (used on shutdown)
+ */
+export function flushUsage(): void {
+    if (!saveTimeout) return
+    clearTimeout(saveTimeout)
+    saveTimeout = null
+    write()
+}
+
+// Load usage on module initialization
+load()
@@ -0,0 +1,94 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import type http from 'node:http'
+import { streamLogger } from '../../utils/logger.js'
+
+/**
+ * Per-user basic-auth credentials for the WebDAV endpoint
+ * The username is the user's Telegram ID and the password is issued with /webdav. Only a
+ * SHA-256 hash of each password is saved (bot-data/webdav-credentials.json).
+ */
+
+const CREDENTIALS_FILE = path.join(process.cwd(), 'bot-data', 'webdav-credentials.json')
+
+interface CredentialRecord {
+    passwordHash: string
+    createdAt: number  // Unix ms
+}
+
+// User ID -> credential
+const credentials = new Map<number, CredentialRecord>()
+
+function hashPassword(password: string): Buffer {
+    return crypto.createHash('sha256').update(password).digest()
+}
+
+function load(): void {
+    try {
+        if (!fs.existsSync(CREDENTIALS_FILE)) return
+        const data: Record<string, CredentialRecord> = JSON.parse(fs.readFileSync(CREDENTIALS_FILE, 'utf8'))
+        for (const [userId, record] of Object.entries(data)) {
+            credentials.set(Number(userId), record)
+        }
+        streamLogger.info(`WebDAV: loaded ${credentials.size} credentials`)
+    } catch (error) {
+        streamLogger.warn('WebDAV: failed to load credentials, starting fresh', { error })
+    }
+}
+
+/**
+ * Write credentials to disk atomically (temp file + rename)
+ */
+function save(): void {
+    try {
+        fs.mkdirSync(path.dirname(CREDENTIALS_FILE), { recursive: true })
+        const tempFile = `${CREDENTIALS_FILE}.${process.pid}.tmp`
+        fs.writeFileSync(tempFile, JSON.stringify(Object.fromEntries(credentials), null, 2), { mode: 0o600 })
+        fs.renameSync(tempFile, CREDENTIALS_FILE)
+    } catch (error) {
+        streamLogger.error('WebDAV: failed to save credentials', { error })
+    }
+}
+
+/**
+ * Issue a new password for a user, replacing any previous one
+ */
+export function issueWebDavPassword(userId: number): string {
+    const password = crypto.randomBytes(18).toString('base64url')
+    credentials.set(userId, { passwordHash: hashPassword(password).toString('hex'), createdAt: Date.now() })
+    save()
+    return password
+}
+
+/**
+ * Revoke a user's password; returns false if they had none
+ */
+export function revokeWebDavPassword(userId: number): boolean {
+    if (!credentials.delete(userId)) return false
+    save()
+    return true
+}
+
+/**
+ * Resolve the user behind a request's "Authorization: Basic" credentials
+ */
+export function authenticateWebDav(req: http.IncomingMessage): number | null {
+    const encoded = req.headers.authorization?.match(/^Basic\s+(\S+)$/i)?.[1]
+    if (!encoded) return null
+
+    const decoded = Buffer.from(encoded, 'base64').toString('utf8')
+    const separator = decoded.indexOf(':')
+    if (separator === -1) return null
+
+    const userId = Number(decoded.slice(0, separator))
+    const record = Number.isSafeInteger(userId) ? credentials.get(userId) : undefined
+    if (!record) return null
+
+    // Compare hashes so the comparison is constant-time and length-independent
+    const given = hashPassword(decoded.slice(separator + 1))
+    return crypto.timingSafeEqual(given, Buffer.from(record.passwordHash, 'hex')) ? userId : null
+}
+
+// Load credentials on module initialization
+load()
@@ -0,0 +1,60 @@
+/**
+ * Playlist documents for /playlist/:token.m3u8 and /playlist/:token.xspf
+ */
+
+/**
+ * One playlist entry with its (already signed) stream URL
+ */
+export interface PlaylistItem {
+    title: string
+    url: string
+    duration?: number  // Seconds
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
+
+/**
+ * Keep titles on one line, since M3U is line-based
+ */
+function singleLine(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ')
+}
+
+/**
+ * Render an extended M3U playlist
+ */
+export function renderM3U8(name: string, items: PlaylistItem[]): string {
+    const lines = ['#EXTM3U', `#PLAYLIST:${singleLine(name)}`]
+    for (const item of items) {
+        // -1 tells players the duration is unknown
+        lines.push(`#EXTINF:${item.duration ? Math.round(item.duration) : -1},${singleLine(item.title)}`, item.url)
+    }
+    return lines.join('\n') + '\n'
+}
+
+/**
+ * Render an XSPF playlist (durations in milliseconds)
+ */
+export function renderXSPF(name: string, items: PlaylistItem[]): string {
+    const tracks = items.map(item => `    <track>
+      <location>${escapeXml(item.url)}</location>
+      <title>${escapeXml(item.title)}</title>${item.duration ? `
+      <duration>${Math.round(item.duration * 1000)}</duration>` : ''}
+    </track>`)
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<playlist version="1" xmlns="http://xspf.org/ns/0/">
+  <title>${escapeXml(name)}</title>
+  <trackList>
+${tracks.join('\n')}
+  </trackList>
+</playlist>
+`
+}
@@ -0,0 +1,117 @@
+import type { FileEntry } from '../../types/index.js'
+
+/**
+ * Self-contained browser player page for /watch/:token
+ */
+
+/**
+ * Relative URLs the page points at (already signed)
+ */
+export interface WatchPageUrls {
+    stream: string
+    download: string
+    subtitles: string[]
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;')
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes <= 0) return 'Unknown size'
+    const units = ['B', 'KB', 'MB', 'GB', 'TB']
+    const exp = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1)
+    return `${(bytes / 1024 ** exp).toFixed(exp === 0 ? 0 : 2)} ${units[exp]}`
+}
+
+/**
+ * Render the watch page HTML
+ */
+export function renderWatchPage(entry: FileEntry, urls: WatchPageUrls): string {
+    const isAudio = entry.mimeType.startsWith('audio/')
+    const tag = isAudio ? 'audio' : 'video'
+    const title = escapeHtml(entry.fileName)
+    const tracks = (entry.subtitles || []).map((track, i) =>
+        `<track kind="subtitles" src="${escapeHtml(urls.subtitles[i])}" label="${escapeHtml(track.label)}"` +
+        `${track.lang ? ` srclang="${escapeHtml(track.lang)}"` : ''}${i === 0 ? ' default' : ''}>`
+    ).join('\n            ')
+    const subtitleOptions = (entry.subtitles || []).map((track, i) =>
+        `<option value="${i}"${i === 0 ? ' selected' : ''}>${escapeHtml(track.label)}</option>`
+    ).join('')
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <meta name="robots" content="noindex">
+    <title>${title} · TgFlix</title>
+    <style>
+        * { box-sizing: border-box; }
+        body { margin: 0; font-family: system-ui, sans-serif; background: #0f0f12; color: #e8e8ee; }
+        main { max-width: 1100px; margin: 0 auto; padding: 16px; }
+        video, audio { width: 100%; background: #000; border-radius: 8px; }
+        audio { margin: 48px 0; }
+        h1 { font-size: 1.2rem; word-break: break-all; margin: 16px 0 4px; }
+        .meta { color: #9a9aa8; font-size: 0.9rem; margin-bottom: 16px; }
+        .actions { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; }
+        .actions a, .actions button, .actions select {
+            background: #24242c; color: inherit; border: 1px solid #34343f; border-radius: 6px;
+            padding: 8px 14px; font-size: 0.95rem; text-decoration: none; cursor: pointer;
+        }
+        .actions a:hover, .actions button:hover { background: #30303a; }
+    </style>
+</head>
+<body>
+<main>
+    <${tag} id="player" controls autoplay preload="metadata" crossorigin="anonymous" src="${escapeHtml(urls.stream)}">
+            ${tracks}
+    </${tag}>
+    <h1>${title}</h1>
+    <div class="meta">${formatBytes(entry.fileSize)} · ${escapeHtml(entry.mimeType)}</div>
+    <div class="actions">
+        <button id="copy" type="button">📋 Copy link</button>
+        <a id="vlc" href="#">▶️ Open in VLC</a>
+        <a id="mx" href="#">📱 Open in MX Player</a>
+        <a href="${escapeHtml(urls.download)}">⬇️ Download</a>
+        ${subtitleOptions ? `<select id="subs" aria-label="Subtitles"><option value="-1">Subtitles off</option>${subtitleOptions}</select>` : ''}
+    </div>
+</main>
+<script>
+    const streamUrl = new URL(${JSON.stringify(urls.stream)}, location.href).href
+    const title = ${JSON.stringify(entry.fileName).replace(/</g, '\\u003c')}
+
+    document.getElementById('vlc').href = 'vlc://' + streamUrl
+    document.getElementById('mx').href = 'intent:' + streamUrl +
+        '#Intent;package=com.mxtech.videoplayer.ad;type=${isAudio ? 'audio' : 'video'}/*;S.title=' +
+        encodeURIComponent(title) + ';end'
+
+    const copy = document.getElementById('copy')
+    copy.addEventListener('click', async () => {
+        try {
+            await navigator.clipboard.writeText(streamUrl)
+            copy.textContent = '✅ Copied'
+        } catch {
+            prompt('Copy this link:', streamUrl)
+        }
+        setTimeout(() => { copy.textContent = '📋 Copy link' }, 2000)
+    })
+
+    const subs = document.getElementById('subs')
+    if (subs) {
+        const player = document.getElementById('player')
+        subs.addEventListener('change', () => {
+            Array.from(player.textTracks).forEach((track, i) => {
+                track.mode = String(i) === subs.value ? 'showing' : 'disabled'
+            })
+        })
+    }
+</script>
+</body>
+</html>`
+}
@@ -0,0 +1,89 @@
+/**
+ * WebDAV documents for /dav: PROPFIND multistatus responses and a browser folder index
+ */
+
+/**
+ * One resource as listed in a PROPFIND response
+ */
+export interface DavResource {
+    href: string  // Already percent-encoded; folders end with "/"
+    name: string
+    folder: boolean
+    size?: number
+    mimeType?: string
+    createdAt?: number  // Unix ms
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
+
+function renderProperties(resource: DavResource): string {
+    const props = [
+        `<D:displayname>${escapeXml(resource.name)}</D:displayname>`,
+        resource.folder ? '<D:resourcetype><D:collection/></D:resourcetype>' : '<D:resourcetype/>',
+    ]
+    if (!resource.folder) {
+        props.push(`<D:getcontentlength>${resource.size ?? 0}</D:getcontentlength>`)
+        props.push(`<D:getcontenttype>${escapeXml(resource.mimeType || 'application/octet-stream')}</D:getcontenttype>`)
+    }
+    if (resource.createdAt !== undefined) {
+        const date = new Date(resource.createdAt)
+        props.push(`<D:creationdate>${date.toISOString()}</D:creationdate>`)
+        props.push(`<D:getlastmodified>${date.toUTCString()}</D:getlastmodified>`)
+    }
+    return props.join('')
+}
+
+/**
+ * 207 Multi-Status body listing every property we have for each resource
+ */
+export function renderMultistatus(resources: DavResource[]): string {
+    const responses = resources.map(resource => `  <D:response>
+    <D:href>${escapeXml(resource.href)}</D:href>
+    <D:propstat>
+      <D:prop>${renderProperties(resource)}</D:prop>
+      <D:status>HTTP/1.1 200 OK</D:status>
+    </D:propstat>
+  </D:response>`)
+
+    return `<?xml version="1.0" encoding="utf-8"?>
+<D:multistatus xmlns:D="DAV:">
+${responses.join('\n')}
+</D:multistatus>
+`
+}
+
+/**
+ * Plain listing for a browser opening a folder
+ */
+export function renderFolderIndex(title: string, children: DavResource[]): string {
+    const items = children.map(child =>
+        `<li><a href="${escapeXml(child.href)}">${escapeXml(child.name)}${child.folder ? '/' : ''}</a></li>`
+    )
+    return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeXml(title)}</title></head>
+<body>
+<h1>${escapeXml(title)}</h1>
+<ul>
+${items.join('\n')}
+</ul>
+</body>
+</html>
+`
+}
+
+/**
+ * Error body naming the precondition that failed (e.g. propfind-finite-depth)
+ */
+export function renderDavError(condition: string): string {
+    return `<?xml version="1.0" encoding="utf-8"?>
+<D:error xmlns:D="DAV:"><D:${condition}/></D:error>
+`
+}
@@ -0,0 +1,249 @@
+import type http from 'node:http'
+import path from 'node:path'
+import { env } from '../../config/env.js'
+import { isAllowed } from '../../bot/middleware/auth.js'
+import { listFilesByOwner, lookupFileEntry } from '../utils/file-store.js'
+import { listCollections, getCollectionItems } from '../utils/collections.js'
+import { authenticateWebDav } from '../utils/webdav-auth.js'
+import { getPublicBaseUrl } from '../utils/proxy.js'
+import { getMimeType } from '../utils/mime.js'
+import type { RequestContext } from '../utils/access-log.js'
+import type { Collection, FileEntry } from '../../types/index.js'
+import { renderMultistatus, renderFolderIndex, renderDavError, type DavResource } from '../views/webdav.js'
+
+/**
+ * Read-only WebDAV tree under /dav, authenticated with credentials from /webdav
+ *
+ *   /dav/My files/                 the user's active links, plus a folder per collection
+ *   /dav/Channel <id>/             the same for each indexed channel
+ *   /dav/<folder>/<collection>/    a collection's items, in order
+ *
+ * Folders are built from the store on every request, so nothing needs to be kept in sync.
+ */
+
+const ALLOWED_METHODS = ['OPTIONS', 'PROPFIND', 'GET', 'HEAD']
+
+interface FolderNode {
+    kind: 'folder'
+    id: string
+    name: string
+    createdAt?: number
+    children: () => DavNode[]
+}
+
+interface FileNode {
+    kind: 'file'
+    id: string
+    name: string
+    entry: FileEntry
+}
+
+type DavNode = FolderNode | FileNode
+
+/**
+ * Make a file or collection name usable as a path segment
+ */
+function safeName(name: string, fallback: string): string {
+    return name.replace(/[/\\\x00-\x1f]/g, '_').trim() || fallback
+}
+
+function createdAtOf(node: DavNode): number {
+    return (node.kind === 'file' ? node.entry.createdAt : node.createdAt) ?? 0
+}
+
+/**
+ * Give nodes that share a name (case-insensitively, for Windows clients) a token suffix
+ * The oldest keeps the plain name, so paths a client already knows don't change.
+ */
+function withUniqueNames(nodes: DavNode[]): DavNode[] {
+    const taken = new Set<string>()
+    const names = new Map<DavNode, string>()
+    for (const node of [...nodes].sort((a, b) => createdAtOf(a) - createdAtOf(b))) {
+        let name = node.name
+        if (taken.has(name.toLowerCase())) {
+            const ext = node.kind === 'file' ? path.extname(name) : ''
+            name = `${name.slice(0, name.length - ext.length)} [${node.id.slice(0, 8)}]${ext}`
+        }
+        taken.add(name.toLowerCase())
+        names.set(node, name)
+    }
+    return nodes.map(node => ({ ...node, name: names.get(node)! }))
+}
+
+function fileNode(token: string, entry: FileEntry): FileNode {
+    return { kind: 'file', id: token, name: safeName(entry.fileName, token), entry }
+}
+
+function collectionFolder(token: string, collection: Collection): FolderNode {
+    return {
+        kind: 'folder',
+        id: token,
+        name: safeName(collection.name, token),
+        createdAt: collection.createdAt,
+        children: () => withUniqueNames(getCollectionItems(collection).map(({ token, entry }) => fileNode(token, entry))),
+    }
+}
+
+/**
+ * A user's or channel's collections and active links
+ */
+function ownerFolder(name: string, ownerId: number): FolderNode {
+    return {
+        kind: 'folder',
+        id: String(ownerId),
+        name,
+        children: () => {
+            const files = listFilesByOwner(ownerId, env.MAX_FILE_ENTRIES)
+                .filter(({ token }) => lookupFileEntry(token).status === 'active')
+            return withUniqueNames([
+                ...listCollections(ownerId).map(({ token, collection }) => collectionFolder(token, collection)),
+                ...files.map(({ token, entry }) => fileNode(token, entry)),
+            ])
+        },
+    }
+}
+
+function rootFolder(userId: number): FolderNode {
+    return {
+        kind: 'folder',
+        id: 'root',
+        name: 'TgFlix',
+        children: () => [
+            ownerFolder('My files', userId),
+            ...env.INDEX_CHANNELS.map(channelId => ownerFolder(`Channel ${channelId}`, channelId)),
+        ],
+    }
+}
+
+/**
+ * Walk the tree along decoded path segments
+ */
+function resolve(root: FolderNode, segments: string[]): DavNode | null {
+    let node: DavNode = root
+    for (const segment of segments) {
+        if (node.kind !== 'folder') return null
+        const child: DavNode | undefined = node.children().find(c => c.name === segment)
+        if (!child) return null
+        node = child
+    }
+    return node
+}
+
+/**
+ * Decode the path below /dav, or null if it isn't valid percent-encoding
+ */
+function pathSegments(url: URL): string[] | null {
+    try {
+        return url.pathname.split('/').filter(Boolean).slice(1).map(decodeURIComponent)
+    } catch {
+        return null
+    }
+}
+
+function toResource(node: DavNode, href: string): DavResource {
+    if (node.kind === 'folder') {
+        return { href, name: node.name, folder: true, createdAt: node.createdAt }
+    }
+    return {
+        href,
+        name: node.name,
+        folder: false,
+        size: node.entry.fileSize,
+        mimeType: node.entry.mimeType || getMimeType(node.entry.fileName),
+        createdAt: node.entry.createdAt,
+    }
+}
+
+function sendXml(res: http.ServerResponse, statusCode: number, body: string): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/xml; charset=utf-8', 'Cache-Control': 'no-store' })
+    res.end(body)
+}
+
+/**
+ * Handle a request under /dav
+ * File bodies are served by serveFile (the regular stream handler), so ranges, conditional
+ * requests and stream limits behave exactly as for /stream links.
+ */
+export async function handleWebDavRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL,
+    context: RequestContext,
+    serveFile: (token: string) => Promise<void>
+): Promise<void> {
+    context.route = '/dav/*'
+    const method = req.method || 'GET'
+
+    // Clients probe with OPTIONS before sending credentials
+    if (method === 'OPTIONS') {
+        res.writeHead(200, {
+            'DAV': '1',
+            'Allow': ALLOWED_METHODS.join(', '),
+            'MS-Author-Via': 'DAV',
+            'Content-Length': 0,
+        })
+        res.end()
+        return
+    }
+
+    const userId = authenticateWebDav(req)
+    if (userId === null || !isAllowed(userId)) {
+        res.writeHead(401, { 'Content-Type': 'text/plain', 'WWW-Authenticate': 'Basic realm="TgFlix", charset="UTF-8"' })
+        res.end('Unauthorized')
+        return
+    }
+
+    if (!ALLOWED_METHODS.includes(method)) {
+        res.writeHead(405, { 'Content-Type': 'text/plain', 'Allow': ALLOWED_METHODS.join(', ') })
+        res.end('This WebDAV share is read-only')
+        return
+    }
+
+    const segments = pathSegments(url)
+    const node = segments && resolve(rootFolder(userId), segments)
+    if (!segments || !node) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' })
+        res.end('Not found')
+        return
+    }
+
+    // Links keep any path prefix HOST was configured with
+    const basePath = `${new URL(getPublicBaseUrl(req)).pathname.replace(/\/$/, '')}/dav/`
+    const hrefOf = (parts: string[], folder: boolean) =>
+        basePath + parts.map(encodeURIComponent).join('/') + (folder && parts.length > 0 ? '/' : '')
+    const href = hrefOf(segments, node.kind === 'folder')
+
+    if (method === 'PROPFIND') {
+        // Every property we have is returned, so the request body is not needed
+        req.resume()
+
+        // Listing the whole tree at once is refused, as RFC 4918 allows
+        const depth = req.headers.depth ?? 'infinity'
+        if (depth !== '0' && depth !== '1') {
+            sendXml(res, 403, renderDavError('propfind-finite-depth'))
+            return
+        }
+
+        const resources = [toResource(node, href)]
+        if (depth === '1' && node.kind === 'folder') {
+            for (const child of node.children()) {
+                resources.push(toResource(child, hrefOf([...segments, child.name], child.kind === 'folder')))
+            }
+        }
+        sendXml(res, 207, renderMultistatus(resources))
+        return
+    }
+
+    // GET and HEAD
+    if (node.kind === 'file') {
+        context.token = node.id
+        await serveFile(node.id)
+        return
+    }
+
+    const children = node.children().map(child =>
+        toResource(child, hrefOf([...segments, child.name], child.kind === 'folder'))
+    )
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' })
+    res.end(method === 'HEAD' ? undefined : renderFolderIndex(segments.at(-1) ?? 'TgFlix', children))
+}
@@ -7,11 +7,55 @@
  */
 export interface FileEntry {
     fileId: string
+    fileUniqueId?: string    // Stable across re-sends; missing on entries saved before it was tracked
     fileName: string
     fileSize: number
     mimeType: string
+    duration?: number        // Seconds, for video and audio
+    createdAt: number        // Unix ms
+    lastAccessAt?: number    // Unix ms, for LRU eviction
+    pinned?: boolean         // Never evicted
+    expiresAt?: number       // Unix ms, undefined = never expires
+    ownerId?: number         // Telegram user ID that registered the link
+    chatId?: number          // Source message, used to refresh expired file references
+    messageId?: number
+    caption?: string
+    revoked?: boolean
+    dead?: boolean           // Source message was deleted
+    subtitles?: SubtitleTrack[]
+    localPath?: string       // Set for files served from LOCAL_MEDIA_DIR instead of Telegram
+    views?: number           // Stream requests that started from the beginning of the file
+    bytesServed?: number
 }
 
+/**
+ * Subtitle file linked to a media entry
+ */
+export interface SubtitleTrack {
+    fileId: string
+    fileName: string
+    label: string
+    lang?: string
+    fileSize?: number
+    source?: MessageRef  // Message the subtitle was sent in, to refresh its file reference
+}
+
+/**
+ * Reference to the Telegram message a file came from
+ */
+export interface MessageRef {
+    chatId: number
+    messageId: number
+}
+
+/**
+ * Result of looking up a token in the file store
+ */
+export type FileLookup =
+    | { status: 'active'; entry: FileEntry }
+    | { status: 'expired' | 'revoked' | 'dead'; entry: FileEntry }
+    | { status: 'not_found' }
+
 /**
  * Supported media types for streaming
  */
@@ -22,7 +66,22 @@ export type SupportedMediaType = 'video' | 'document' | 'audio' | 'voice'
  */
 export interface MediaInfo {
     fileId: string
+    fileUniqueId: string
     fileName: string
     fileSize: number
     mimeType: string
+    duration?: number
+    caption?: string
+    localPath?: string
+}
+
+/**
+ * Ordered group of file entries with its own token, served as a playlist
+ */
+export interface Collection {
+    name: string
+    ownerId: number
+    tokens: string[]         // File entry tokens, in playlist order
+    createdAt: number        // Unix ms
+    groupId?: string         // Telegram album the collection was built from
 }
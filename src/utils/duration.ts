@@ -0,0 +1,43 @@
+/**
+ * Human-friendly duration parsing/formatting (e.g. "90m", "12h", "7d")
+ */
+
+const UNIT_MS: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Parse a duration string into milliseconds
+ * Accepts a number with an optional unit (s, m, h, d, w) - bare numbers are seconds
+ * Returns null if the input is not a valid duration
+ */
+export function parseDuration(input: string): number | null {
+    const match = input.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([smhdw]?)$/)
+    if (!match) return null
+    const value = parseFloat(match[1])
+    const unit = match[2] || 's'
+    return Math.round(value * UNIT_MS[unit])
+}
+
+/**
+ * Format milliseconds as a compact duration (e.g. "2d 3h")
+ */
+export function formatDuration(ms: number): string {
+    if (ms <= 0) return '0s'
+    const parts: string[] = []
+    let remaining = ms
+    for (const unit of ['d', 'h', 'm', 's']) {
+        const size = UNIT_MS[unit]
+        const count = Math.floor(remaining / size)
+        if (count > 0) {
+            parts.push(`${count}${unit}`)
+            remaining -= count * size
+        }
+        if (parts.length === 2) break
+    }
+    return parts.length ? parts.join(' ') : '0s'
+}
@@ -79,5 +79,23 @@ export const botLogger = createLogger('Bot')
 export const streamLogger = createLogger('Stream')
 export const serverLogger = createLogger('Server')
 
+// Access log: one JSON line per HTTP request, rotated when it reaches ACCESS_LOG_MAX_SIZE_MB
+export const accessLogger = winston.createLogger({
+    level: 'info',
+    silent: !env.ACCESS_LOG_FILE,
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+    ),
+    transports: env.ACCESS_LOG_FILE ? [
+        new winston.transports.File({
+            filename: env.ACCESS_LOG_FILE,
+            maxsize: env.ACCESS_LOG_MAX_SIZE_MB * 1024 * 1024,
+            maxFiles: env.ACCESS_LOG_MAX_FILES,
+            tailable: true,
+        }),
+    ] : [],
+})
+
 // Export the main logger as default
 export default logger
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, test } from 'node:test'
+
+// Run in a scratch directory, so bot-data and .env of the checkout are left alone
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tgflix-local-'))
+const media = path.join(dir, 'media')
+const outside = path.join(dir, 'secret.txt')
+fs.mkdirSync(media)
+fs.writeFileSync(outside, 'host file')
+fs.writeFileSync(path.join(media, 'movie.mp4'), 'movie')
+fs.symlinkSync(outside, path.join(media, 'escape.txt'))
+fs.symlinkSync(path.join(media, 'movie.mp4'), path.join(media, 'alias.mp4'))
+process.chdir(dir)
+Object.assign(process.env, { API_ID: '1', API_HASH: 'x', BOT_TOKEN: 'x', LOCAL_MEDIA_DIR: media })
+
+const { resolveLocalPath, createLocalSource } = await import('../src/server/sources/local.js')
+const { FileGoneError } = await import('../src/server/sources/types.js')
+
+const realMedia = fs.realpathSync(media)
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+test('resolves files inside the media directory', async () => {
+    assert.equal(await resolveLocalPath('movie.mp4'), path.join(realMedia, 'movie.mp4'))
+    assert.equal(await resolveLocalPath('/movie.mp4'), path.join(realMedia, 'movie.mp4'))
+})
+
+test('follows symlinks that stay inside the media directory', async () => {
+    assert.equal(await resolveLocalPath('alias.mp4'), path.join(realMedia, 'movie.mp4'))
+})
+
+test('rejects paths that escape the media directory', async () => {
+    assert.equal(await resolveLocalPath('../secret.txt'), null)
+    assert.equal(await resolveLocalPath('escape.txt'), null)
+    assert.equal(await resolveLocalPath('missing.mp4'), null)
+})
+
+test('refuses to serve a file swapped for a symlink after registration', async () => {
+    fs.writeFileSync(path.join(media, 'swapped.mp4'), 'video')
+    const source = createLocalSource('token-swapped', {
+        fileId: 'local:swapped.mp4',
+        fileName: 'swapped.mp4',
+        fileSize: 5,
+        mimeType: 'video/mp4',
+        createdAt: Date.now(),
+        localPath: 'swapped.mp4',
+    })
+    assert.equal((await source.info()).size, 5)
+
+    fs.rmSync(path.join(media, 'swapped.mp4'))
+    fs.symlinkSync(outside, path.join(media, 'swapped.mp4'))
+    await assert.rejects(source.info(), FileGoneError)
+    await assert.rejects(async () => {
+        for await (const _ of source.open({ start: 0, end: 4 }, new AbortController().signal)) { /* drain */ }
+    }, FileGoneError)
+})
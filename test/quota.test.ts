@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import http from 'node:http'
+import os from 'node:os'
+import path from 'node:path'
+import { after, test } from 'node:test'
+
+// Run in a scratch directory, so bot-data and .env of the checkout are left alone
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tgflix-quota-'))
+const media = path.join(dir, 'media')
+const FILE_SIZE = 3 * 1024 * 1024
+fs.mkdirSync(media)
+fs.writeFileSync(path.join(media, 'movie.mp4'), Buffer.alloc(FILE_SIZE))
+process.chdir(dir)
+
+const port = 20000 + (process.pid % 10000)
+Object.assign(process.env, {
+    API_ID: '1',
+    API_HASH: 'x',
+    BOT_TOKEN: 'x',
+    PORT: String(port),
+    HOST: `http://127.0.0.1:${port}`,
+    LOCAL_MEDIA_DIR: media,
+    DAILY_QUOTA_MB: '1',
+    ACCESS_LOG_FILE: '',
+    LOG_LEVEL: 'error',
+})
+
+const { startStreamServer } = await import('../src/server/index.js')
+const { registerFile, getStreamUrl } = await import('../src/server/utils/file-store.js')
+const { getUsage, flushUsage } = await import('../src/server/utils/usage.js')
+
+const tg = { onConnectionState: { add() {} } }
+const server = startStreamServer(tg as never)
+await new Promise(resolve => server.once('listening', resolve))
+
+after(() => {
+    server.closeAllConnections()
+    server.close()
+    flushUsage()
+    fs.rmSync(dir, { recursive: true, force: true })
+})
+
+/**
+ * GET a URL, counting the body bytes that arrive before the response ends or is cut off
+ */
+function fetchBytes(url: string): Promise<{ status: number; received: number }> {
+    return new Promise((resolve, reject) => {
+        http.get(url, res => {
+            let received = 0
+            res.on('data', (chunk: Buffer) => { received += chunk.length })
+            res.on('close', () => resolve({ status: res.statusCode ?? 0, received }))
+        }).on('error', reject)
+    })
+}
+
+const token = registerFile({
+    fileId: 'local:movie.mp4',
+    fileUniqueId: 'local:movie.mp4',
+    fileName: 'movie.mp4',
+    fileSize: FILE_SIZE,
+    mimeType: 'video/mp4',
+    localPath: 'movie.mp4',
+}, 7)
+
+test('a running stream is cut off once the owner runs out of quota', async () => {
+    const { status, received } = await fetchBytes(getStreamUrl(token))
+    assert.equal(status, 200)
+    assert.ok(received > 0 && received < FILE_SIZE, `received ${received} of ${FILE_SIZE} bytes`)
+    const charged = getUsage(7).daily
+    assert.ok(charged >= 1024 * 1024 && charged < FILE_SIZE, `charged ${charged} bytes`)
+})
+
+test('new streams are refused once the quota is used up', async () => {
+    const { status } = await fetchBytes(getStreamUrl(token))
+    assert.equal(status, 429)
+})
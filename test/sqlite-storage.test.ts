@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, test } from 'node:test'
+import Database from 'better-sqlite3'
+import { SqliteFileStorage } from '../src/server/storage/sqlite.js'
+import type { FileEntry } from '../src/types/index.js'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tgflix-sqlite-'))
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+function entry(fileName: string): FileEntry {
+    return {
+        fileId: `id-${fileName}`,
+        fileUniqueId: `unique-${fileName}`,
+        fileName,
+        fileSize: 1,
+        mimeType: 'video/mp4',
+        ownerId: 1,
+        createdAt: Date.now(),
+    }
+}
+
+function searchNames(storage: SqliteFileStorage, term: string): string[] {
+    return storage.search([1], [term], 10, Date.now()).map(([, found]) => found.fileName).sort()
+}
+
+test('search still finds the right entries after VACUUM', () => {
+    const file = path.join(dir, 'vacuum.db')
+    const storage = new SqliteFileStorage(file)
+    for (let i = 0; i < 6; i++) storage.put(`token-${i}`, entry(`movie ${i} ${i % 2 ? 'odd' : 'even'}.mp4`))
+    // Leave gaps in the ids, which VACUUM would close for an implicit rowid
+    storage.delete('token-0')
+    storage.delete('token-2')
+    storage.close()
+
+    const db = new Database(file)
+    db.exec('VACUUM')
+    db.close()
+
+    const reopened = new SqliteFileStorage(file)
+    assert.deepEqual(searchNames(reopened, 'even'), ['movie 4 even.mp4'])
+    assert.deepEqual(searchNames(reopened, 'odd'), ['movie 1 odd.mp4', 'movie 3 odd.mp4', 'movie 5 odd.mp4'])
+    reopened.close()
+})
+
+test('stores without an id column are rebuilt and reindexed', () => {
+    const file = path.join(dir, 'legacy.db')
+    const db = new Database(file)
+    db.exec(`
+        CREATE TABLE file_entries (
+            token       TEXT PRIMARY KEY,
+            owner_id    INTEGER,
+            chat_id     INTEGER,
+            message_id  INTEGER,
+            created_at  INTEGER NOT NULL,
+            last_access INTEGER NOT NULL,
+            pinned      INTEGER NOT NULL DEFAULT 0,
+            data        TEXT NOT NULL
+        )
+    `)
+    const insert = db.prepare(
+        'INSERT INTO file_entries (token, owner_id, created_at, last_access, data) VALUES (?, 1, 0, 0, ?)'
+    )
+    insert.run('old-a', JSON.stringify(entry('holiday.mp4')))
+    insert.run('old-b', JSON.stringify(entry('concert.mp4')))
+    db.close()
+
+    const storage = new SqliteFileStorage(file)
+    assert.equal(storage.count(), 2)
+    assert.deepEqual(searchNames(storage, 'holiday'), ['holiday.mp4'])
+    assert.equal(storage.findByUniqueId(1, 'unique-concert.mp4'), 'old-b')
+
+    storage.put('new-c', entry('holiday 2.mp4'))
+    assert.deepEqual(searchNames(storage, 'holiday'), ['holiday 2.mp4', 'holiday.mp4'])
+    storage.close()
+})